@@ -3,8 +3,16 @@ import type { Except, Opaque } from 'type-fest';
 import type { HttpClient } from './http.js';
 import type { IdentityId, IdentityCreateParams, IdentityUpdateParams } from './identity.js';
 import { Identity, IdentityImpl } from './identity.js';
-import type { Model, Page, PageParams, PODModel, ResourceId, WritableExcluding } from './model.js';
-import { makePage } from './model.js';
+import type {
+  Model,
+  Page,
+  PageParams,
+  PaginateOptions,
+  PODModel,
+  ResourceId,
+  WritableExcluding,
+} from './model.js';
+import { makePage, paginate } from './model.js';
 import { Permission, PermissionImpl } from './permission.js';
 import type { PermissionCreateParams, PermissionId } from './permission.js';
 
@@ -147,6 +155,18 @@ export class App implements Model {
     return PermissionImpl.list(this.#client, this.id, filter);
   }
 
+  /** Iterates over every permission associated with this app, fetching pages as needed. */
+  public iteratePermissions(
+    filter?: PageParams,
+    options?: PaginateOptions,
+  ): AsyncIterable<Permission> {
+    return paginate(
+      async (f) => PermissionImpl.list(this.#client, this.id, f),
+      filter ?? {},
+      options,
+    );
+  }
+
   /**
    * Deletes a permission from this app, revoking any access made by granting permission.
    * will be removed from `this.permissions`.
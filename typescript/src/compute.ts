@@ -1,10 +1,13 @@
+import AbortController from 'abort-controller';
+import EventEmitter from 'eventemitter3';
 import type { Opaque } from 'type-fest';
 
-import type { DocumentId } from './document.js';
-import type { HttpClient } from './http.js';
+import type { Document, DocumentId } from './document.js';
+import { DocumentImpl } from './document.js';
+import type { Download, DownloadOptions, HttpClient, WriteOptions } from './http.js';
 import type { IdentityId } from './identity.js';
 import type { Page, PageParams, PODModel } from './model.js';
-import { makePage, ResourceId } from './model.js';
+import { AbortError, makePage, mapConcurrently, ResourceId, sleep } from './model.js';
 
 export type JobId = Opaque<ResourceId, 'JobId'>;
 
@@ -128,6 +131,237 @@ export type JobSpec = {
   memory?: string;
 };
 
+/** A problem with a field of a `JobSpec`, as found by `validateJobSpec`. */
+export type JobSpecIssue = {
+  /** The path of the invalid field, e.g. `inputDocuments[0].mountPath`. */
+  path: string;
+  message: string;
+};
+
+/** Thrown when a `JobSpec` is invalid and would be rejected by the gateway. */
+export class InvalidJobSpecError extends Error {
+  name = 'InvalidJobSpecError';
+
+  public constructor(public readonly issues: JobSpecIssue[]) {
+    super(
+      `invalid job spec: ${issues.map(({ path, message }) => `\`${path}\` ${message}`).join('; ')}`,
+    );
+  }
+}
+
+const INPUT_ROOT = '/parcel/data/in';
+const OUTPUT_ROOT = '/parcel/data/out';
+const MIN_MEMORY_MB = 4;
+const MEMORY_UNIT_BYTES: Record<string, number> = { M: 1024 ** 2, G: 1024 ** 3 };
+
+/**
+ * Checks a job spec for errors that the gateway would reject it for, such as malformed
+ * `memory`, a `PATH` environment variable, mount paths that are absolute, contain `..`, or are
+ * duplicated, or invalid CIDRs.
+ * @returns the problems found, which is empty if the spec is valid.
+ */
+export function validateJobSpec(spec: JobSpec): JobSpecIssue[] {
+  const issues: JobSpecIssue[] = [];
+  const check = (path: string, message: string | undefined) => {
+    if (message !== undefined) issues.push({ path, message });
+  };
+
+  check('name', checkNonEmptyString(spec.name));
+  check('image', checkNonEmptyString(spec.image));
+  if (Array.isArray(spec.cmd)) {
+    for (const [i, arg] of spec.cmd.entries()) {
+      if (typeof arg !== 'string') check(`cmd[${i}]`, 'must be a string');
+    }
+  } else {
+    check('cmd', 'must be an array of strings');
+  }
+
+  for (const [name, value] of Object.entries(spec.env ?? {})) {
+    if (name === 'PATH') check('env.PATH', 'must not be set');
+    else if (typeof value !== 'string') check(`env.${name}`, 'must be a string');
+  }
+
+  const inputMountPaths = new Set<string>();
+  for (const [i, { id, mountPath }] of (spec.inputDocuments ?? []).entries()) {
+    check(`inputDocuments[${i}].id`, checkNonEmptyString(id));
+    check(
+      `inputDocuments[${i}].mountPath`,
+      checkMountPath(mountPath, INPUT_ROOT) ?? checkUnique(mountPath, inputMountPaths),
+    );
+  }
+
+  const outputMountPaths = new Set<string>();
+  for (const [i, { mountPath }] of (spec.outputDocuments ?? []).entries()) {
+    check(
+      `outputDocuments[${i}].mountPath`,
+      checkMountPath(mountPath, OUTPUT_ROOT) ?? checkUnique(mountPath, outputMountPaths),
+    );
+  }
+
+  for (const [i, { cidr }] of (spec.networkPolicy?.egress ?? []).entries()) {
+    check(`networkPolicy.egress[${i}].cidr`, checkCidr(cidr));
+  }
+
+  if (spec.cpus !== undefined && !(Number.isFinite(spec.cpus) && spec.cpus > 0)) {
+    check('cpus', 'must be a positive number');
+  }
+
+  if (spec.memory !== undefined) check('memory', checkMemory(spec.memory));
+
+  return issues;
+}
+
+function checkNonEmptyString(value: unknown): string | undefined {
+  if (typeof value !== 'string' || value === '') return 'must be a non-empty string';
+  return undefined;
+}
+
+function checkUnique(mountPath: string, seen: Set<string>): string | undefined {
+  const normalized = mountPath.split('/').filter((segment) => segment !== '' && segment !== '.');
+  const key = normalized.join('/');
+  if (seen.has(key)) return `\`${mountPath}\` is already used by another document`;
+  seen.add(key);
+  return undefined;
+}
+
+function checkMountPath(mountPath: unknown, root: string): string | undefined {
+  if (typeof mountPath !== 'string' || mountPath === '') return 'must be a non-empty string';
+  if (mountPath.startsWith('/')) return `must be relative to \`${root}\``;
+  if (mountPath.split('/').includes('..')) return `must not point outside of \`${root}\``;
+  return undefined;
+}
+
+function checkMemory(memory: unknown): string | undefined {
+  const match = typeof memory === 'string' ? /^([1-9]\d*)([MG])?$/.exec(memory) : null;
+  if (!match) return 'must be a positive integer, optionally followed by `M` or `G`, e.g. `512M`';
+  const [, amount, unit] = match;
+  // A number without a unit is a number of bytes.
+  const bytes = Number(amount) * (unit ? MEMORY_UNIT_BYTES[unit] : 1);
+  if (bytes < MIN_MEMORY_MB * MEMORY_UNIT_BYTES.M) return `must be at least ${MIN_MEMORY_MB}M`;
+  return undefined;
+}
+
+function checkCidr(cidr: unknown): string | undefined {
+  if (typeof cidr !== 'string') return 'must be a string';
+  const [address, prefixLength, ...rest] = cidr.split('/');
+  let maxPrefixLength;
+  if (isIpv4(address)) maxPrefixLength = 32;
+  else if (isIpv6(address)) maxPrefixLength = 128;
+  else return `\`${address}\` is not an IPv4 or IPv6 address`;
+
+  if (
+    prefixLength !== undefined &&
+    (rest.length > 0 || !/^\d{1,3}$/.test(prefixLength) || Number(prefixLength) > maxPrefixLength)
+  ) {
+    return `must have a prefix length between 0 and ${maxPrefixLength}`;
+  }
+
+  return undefined;
+}
+
+function isIpv4(address: string): boolean {
+  const octets = address.split('.');
+  return (
+    octets.length === 4 &&
+    octets.every((octet) => /^(0|[1-9]\d{0,2})$/.test(octet) && Number(octet) <= 255)
+  );
+}
+
+function isIpv6(address: string): boolean {
+  // An embedded IPv4 address (e.g. `::ffff:192.0.2.1`) takes the place of the last two groups.
+  let hexAddress = address;
+  const lastGroupStart = address.lastIndexOf(':') + 1;
+  if (address.includes('.', lastGroupStart)) {
+    if (!isIpv4(address.slice(lastGroupStart))) return false;
+    hexAddress = `${address.slice(0, lastGroupStart)}0:0`;
+  }
+
+  // At most one `::` may stand in for one or more groups of zeros.
+  const halves = hexAddress.split('::');
+  if (halves.length > 2) return false;
+  const groups = halves.flatMap((half) => (half === '' ? [] : half.split(':')));
+  if (!groups.every((group) => /^[\da-f]{1,4}$/i.test(group))) return false;
+  return halves.length === 2 ? groups.length < 8 : groups.length === 8;
+}
+
+/**
+ * Builds a `JobSpec`. `build()` validates the spec, so mistakes are caught before the job is
+ * submitted.
+ *
+ * Example:
+ * ```ts
+ * const spec = new JobSpecBuilder('word-count', 'bash')
+ *   .cmd('-c', 'wc -w < /parcel/data/in/text.txt > /parcel/data/out/count.txt')
+ *   .inputDocument(documentId, 'text.txt')
+ *   .outputDocument('count.txt', ownerId)
+ *   .memory('512M')
+ *   .build();
+ * ```
+ */
+export class JobSpecBuilder {
+  private readonly spec: JobSpec;
+
+  public constructor(name: string, image: string) {
+    this.spec = { name, image, cmd: [] };
+  }
+
+  /** Sets the arguments of the image's entrypoint. */
+  public cmd(...args: string[]): this {
+    this.spec.cmd = args;
+    return this;
+  }
+
+  /** Sets an environment variable. */
+  public env(name: string, value: string): this {
+    this.spec.env = { ...this.spec.env, [name]: value };
+    return this;
+  }
+
+  /** Mounts a document at `mountPath`, relative to `/parcel/data/in`. */
+  public inputDocument(id: DocumentId, mountPath: string): this {
+    this.spec.inputDocuments = [...(this.spec.inputDocuments ?? []), { id, mountPath }];
+    return this;
+  }
+
+  /** Uploads the file at `mountPath`, relative to `/parcel/data/out`, as a document. */
+  public outputDocument(mountPath: string, owner?: IdentityId): this {
+    const outputDocument: OutputDocumentSpec = owner ? { mountPath, owner } : { mountPath };
+    this.spec.outputDocuments = [...(this.spec.outputDocuments ?? []), outputDocument];
+    return this;
+  }
+
+  /** Allows the job to connect to the given IP addresses or CIDR-style masks. */
+  public allowEgress(...cidrs: string[]): this {
+    const egress = [...(this.spec.networkPolicy?.egress ?? []), ...cidrs.map((cidr) => ({ cidr }))];
+    this.spec.networkPolicy = { ...this.spec.networkPolicy, egress };
+    return this;
+  }
+
+  /** Allows the job to call the Parcel API. */
+  public allowParcelApiAccess(allowed = true): this {
+    this.spec.networkPolicy = { ...this.spec.networkPolicy, parcelApiAccess: allowed };
+    return this;
+  }
+
+  public cpus(cpus: number): this {
+    this.spec.cpus = cpus;
+    return this;
+  }
+
+  /** Sets the requested memory, e.g. `512M` or `2G`. */
+  public memory(memory: string): this {
+    this.spec.memory = memory;
+    return this;
+  }
+
+  /** @throws `InvalidJobSpecError` if the spec is invalid. */
+  public build(): JobSpec {
+    const issues = validateJobSpec(this.spec);
+    if (issues.length > 0) throw new InvalidJobSpecError(issues);
+    return { ...this.spec };
+  }
+}
+
 export type JobIo = {
   /**
    * Documents that were accessed by the job. Includes both the prespecified
@@ -166,6 +400,66 @@ export enum JobPhase {
   FAILED = 'Failed',
 }
 
+/** Phases after which a job's status no longer changes. */
+const FINAL_PHASES = new Set([JobPhase.SUCCEEDED, JobPhase.FAILED]);
+
+export type WaitForJobOptions = Partial<{
+  /** The delay between status polls, in milliseconds. Defaults to 5 seconds. */
+  pollInterval: number;
+
+  /**
+   * The factor by which the poll interval grows after each poll that finds the job unfinished,
+   * up to `maxPollInterval`. Defaults to 1 (i.e., a constant interval).
+   */
+  backoff: number;
+
+  /** The upper bound of the poll interval, in milliseconds. Defaults to 1 minute. */
+  maxPollInterval: number;
+
+  /**
+   * How long to wait for the job to finish, in milliseconds, before failing with a
+   * `JobTimeoutError`. By default, waits indefinitely.
+   */
+  timeout: number;
+
+  /** Stops waiting (with an `AbortError`). The job itself keeps running. */
+  signal: AbortSignal;
+
+  /** Called with the first status report, and with every report whose status differs from the last. */
+  onStatusChange: (report: JobStatusReport) => void;
+}>;
+
+/** Thrown when a job does not finish within the time allotted by `WaitForJobOptions.timeout`. */
+export class JobTimeoutError extends Error {
+  name = 'JobTimeoutError';
+
+  public constructor(
+    public readonly jobId: JobId,
+    /** The last observed status of the job. */
+    public readonly status: JobStatus,
+  ) {
+    super(`timed out waiting for job ${jobId}, which is ${status.phase}`);
+  }
+}
+
+export type JobLogsOptions = Partial<{
+  /** Keeps streaming new lines as the job prints them, until the job finishes. */
+  follow: boolean;
+
+  /** Returns only lines printed at or after this time. */
+  since: Date;
+
+  /** Returns only the last `tail` lines printed so far (followed by new lines, if following). */
+  tail: number;
+}>;
+
+export type GetJobDocumentsOptions = Partial<{
+  /** The maximum number of documents to fetch at once. Defaults to 8. */
+  concurrency: number;
+}>;
+
+const DEFAULT_DOCUMENT_CONCURRENCY = 8;
+
 export type PODJob = Readonly<
   PODModel & {
     id: JobId;
@@ -210,6 +504,91 @@ export class Job {
     this.io = pod.io;
     this.status = pod.status;
   }
+
+  /** Updates this job with its latest status and I/O from the gateway. */
+  public async refresh(): Promise<Job> {
+    Object.assign(this, await ComputeImpl.getJob(this.#client, this.id));
+    return this;
+  }
+
+  /**
+   * Fetches the current status of the job. This is faster than `refresh()`, but does not update
+   * this job's `status`. (It is not named `status()` because that would replace the `status`
+   * property, which holds the most recently observed status.)
+   */
+  public async getStatus(): Promise<JobStatusReport> {
+    return ComputeImpl.getJobStatus(this.#client, this.id);
+  }
+
+  /**
+   * Schedules the job for termination on a best-effort basis. It is not an error to terminate
+   * an already-terminated job.
+   */
+  public async terminate(): Promise<void> {
+    return ComputeImpl.terminateJob(this.#client, this.id);
+  }
+
+  /**
+   * Revokes the job's access to the Parcel gateway, so the job can no longer make API requests
+   * on behalf of its submitter.
+   */
+  public async revokeGatewayAccess(): Promise<void> {
+    return ComputeImpl.revokeGatewayAccess(this.#client, this.id);
+  }
+
+  /**
+   * Streams the lines printed by the job, using the log endpoint that this SDK assumes of the
+   * gateway; see `JobLogs`.
+   */
+  public logs(options?: JobLogsOptions): JobLogs {
+    return ComputeImpl.getJobLogs(this.#client, this.id, options);
+  }
+
+  /**
+   * Waits for the job to succeed or fail.
+   * @returns the finished job.
+   */
+  public async wait(options?: WaitForJobOptions): Promise<Job> {
+    return ComputeImpl.waitForJob(this.#client, this.id, options);
+  }
+
+  /** Fetches the documents that were output by the job. */
+  public async getOutputDocuments(options?: GetJobDocumentsOptions): Promise<Document[]> {
+    return this.getDocuments(
+      this.io.outputDocuments.map(({ id }) => id),
+      options,
+    );
+  }
+
+  /**
+   * Fetches the documents that were accessed by the job, including both its input documents and
+   * any documents it accessed dynamically.
+   */
+  public async getAccessedDocuments(options?: GetJobDocumentsOptions): Promise<Document[]> {
+    return this.getDocuments(this.io.accessedDocuments, options);
+  }
+
+  /**
+   * Downloads the output document that the job uploaded from `mountPath`.
+   * @param mountPath The `mountPath` of the `OutputDocumentSpec`.
+   */
+  public downloadOutput(mountPath: string, options?: DownloadOptions): Download {
+    const outputDocument = this.io.outputDocuments.find((o) => o.mountPath === mountPath);
+    if (!outputDocument) {
+      throw new Error(`job ${this.id} has no output document at \`${mountPath}\``);
+    }
+
+    return DocumentImpl.download(this.#client, outputDocument.id, options);
+  }
+
+  private async getDocuments(
+    ids: DocumentId[],
+    options?: GetJobDocumentsOptions,
+  ): Promise<Document[]> {
+    return mapConcurrently(ids, options?.concurrency ?? DEFAULT_DOCUMENT_CONCURRENCY, async (id) =>
+      DocumentImpl.get(this.#client, id),
+    );
+  }
 }
 
 /**
@@ -226,6 +605,118 @@ export class JobStatusReport {
     this.id = pod.id;
     this.status = pod.status;
   }
+
+  /** Fetches the full job that this report describes. */
+  public async getJob(): Promise<Job> {
+    return ComputeImpl.getJob(this.#client, this.id);
+  }
+}
+
+/**
+ * A `JobWatcher` is the result of calling `parcel.watchJob`. It polls the status of the job
+ * until the job succeeds or fails.
+ *
+ * Emits a `phase` event with the `JobStatusReport` and the previous `JobPhase` (`undefined` on
+ * the first poll) whenever the job enters a new phase.
+ *
+ * When the job has finished, the `finish` event is emitted with the final `Job` as its argument.
+ * If waiting fails (e.g., times out), the `error` event is emitted instead.
+ */
+export class JobWatcher extends EventEmitter {
+  private readonly abortController: AbortController;
+
+  public constructor(client: HttpClient, jobId: JobId, options?: WaitForJobOptions) {
+    super();
+
+    this.abortController = new AbortController();
+    const onAbort = () => {
+      this.abortController.abort();
+    };
+
+    options?.signal?.addEventListener('abort', onAbort, { once: true });
+
+    ComputeImpl.waitForJob(
+      client,
+      jobId,
+      { ...options, signal: this.abortController.signal },
+      (report, previousPhase) => this.emit('phase', report, previousPhase),
+    )
+      // eslint-disable-next-line promise/prefer-await-to-then
+      .then((job) => {
+        this.emit('finish', job);
+      })
+      // eslint-disable-next-line promise/prefer-await-to-then
+      .catch((error: any) => {
+        this.emit('error', error);
+      })
+      // eslint-disable-next-line promise/prefer-await-to-then
+      .finally(() => {
+        // A long-lived signal must not keep finished watchers alive.
+        options?.signal?.removeEventListener('abort', onAbort);
+      });
+  }
+
+  /** Stops watching the job. The job itself keeps running. */
+  public abort(): void {
+    this.abortController.abort();
+  }
+
+  public get aborted(): boolean {
+    return this.abortController.signal.aborted;
+  }
+
+  /**
+   * @returns a `Promise` that resolves to the finished job.
+   */
+  public get finished(): Promise<Job> {
+    return new Promise((resolve, reject) => {
+      this.on('finish', resolve);
+      this.on('error', reject);
+    });
+  }
+}
+
+/**
+ * A `JobLogs` is the result of calling `parcel.getJobLogs` or `job.logs()`.
+ *
+ * The lines printed by the job (to stdout and stderr), without line terminators, can be read
+ * using async iterable `for await (const line of logs)`. The logs are streamed, so lines become
+ * available as they are received.
+ *
+ * Following logs may be stopped by calling `logs.abort()`.
+ *
+ * The logs are read from `GET /compute/jobs/:id/logs`, which is not a documented Parcel
+ * endpoint but one that this SDK assumes: it must stream the job's output as plain text and
+ * accept the `JobLogsOptions` as query parameters. A gateway that does not support it
+ * responds with an error when the logs are read.
+ */
+export class JobLogs implements AsyncIterable<string> {
+  public constructor(private readonly download: Download) {}
+
+  public async *[Symbol.asyncIterator](): AsyncGenerator<string, void, undefined> {
+    const decoder = new TextDecoder();
+    let partialLine = '';
+    for await (const chunk of this.download) {
+      const lines = (partialLine + decoder.decode(chunk, { stream: true })).split('\n');
+      partialLine = lines.pop()!;
+      for (const line of lines) yield stripCarriageReturn(line);
+    }
+
+    partialLine += decoder.decode();
+    if (partialLine) yield stripCarriageReturn(partialLine);
+  }
+
+  public abort(): void {
+    this.download.abort();
+  }
+
+  public get aborted(): boolean {
+    return this.download.aborted;
+  }
+}
+
+function stripCarriageReturn(line: string): string {
+  return line.endsWith('\r') ? line.slice(0, -1) : line;
 }
 
 const COMPUTE_EP = 'compute';
@@ -233,10 +724,17 @@ const JOBS_EP = `${COMPUTE_EP}/jobs`;
 const endpointForId = (id: JobId) => `${JOBS_EP}/${id}`;
 const statusEndpointForId = (id: JobId) => `${JOBS_EP}/${id}/status`;
 const revokeApiEndpointForId = (id: JobId) => `${JOBS_EP}/${id}/revoke_gateway_access`;
+const logsEndpointForId = (id: JobId) => `${JOBS_EP}/${id}/logs`;
 
 export namespace ComputeImpl {
-  export async function submitJob(client: HttpClient, spec: JobSpec): Promise<Job> {
-    const pod = await client.create<PODJob>(JOBS_EP, spec);
+  export async function submitJob(
+    client: HttpClient,
+    spec: JobSpec,
+    options?: WriteOptions,
+  ): Promise<Job> {
+    const issues = validateJobSpec(spec);
+    if (issues.length > 0) throw new InvalidJobSpecError(issues);
+    const pod = await client.create<PODJob>(JOBS_EP, spec, options);
     return new Job(client, pod);
   }
 
@@ -255,6 +753,53 @@ export namespace ComputeImpl {
     return new JobStatusReport(client, pod);
   }
 
+  /**
+   * Polls the status of the job until it succeeds or fails, calling `onPhaseChange` whenever
+   * the job enters a new phase.
+   * @returns the finished job.
+   */
+  export async function waitForJob(
+    client: HttpClient,
+    jobId: JobId,
+    options: WaitForJobOptions = {},
+    onPhaseChange?: (report: JobStatusReport, previousPhase?: JobPhase) => void,
+  ): Promise<Job> {
+    const { signal, timeout, backoff = 1, maxPollInterval = 60_000 } = options;
+    const deadline = timeout === undefined ? Number.POSITIVE_INFINITY : Date.now() + timeout;
+    let pollInterval = options.pollInterval ?? 5000;
+    let phase: JobPhase | undefined;
+    let status: string | undefined;
+    for (;;) {
+      if (signal?.aborted) throw new AbortError();
+      const report = await getJobStatus(client, jobId);
+      if (JSON.stringify(report.status) !== status) {
+        status = JSON.stringify(report.status);
+        options.onStatusChange?.(report);
+      }
+
+      if (report.status.phase !== phase) {
+        const previousPhase = phase;
+        phase = report.status.phase;
+        onPhaseChange?.(report, previousPhase);
+      }
+
+      if (FINAL_PHASES.has(phase)) return getJob(client, jobId);
+
+      const remaining = deadline - Date.now();
+      if (remaining <= 0) throw new JobTimeoutError(jobId, report.status);
+      await sleep(Math.min(pollInterval, remaining), signal);
+      pollInterval = Math.min(pollInterval * backoff, maxPollInterval);
+    }
+  }
+
+  export function getJobLogs(
+    client: HttpClient,
+    jobId: JobId,
+    options: JobLogsOptions = {},
+  ): JobLogs {
+    return new JobLogs(client.stream(logsEndpointForId(jobId), options, 'job logs'));
+  }
+
   export async function terminateJob(client: HttpClient, jobId: JobId): Promise<void> {
     return client.delete(endpointForId(jobId));
   }
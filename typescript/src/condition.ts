@@ -1,5 +1,6 @@
 import type { Primitive } from 'type-fest';
 
+import type { AccessContext } from './asset.js';
 import type {
   InputDocumentSpec as $InputDocumentSpec,
   OutputDocumentSpec as $OutputDocumentSpec,
@@ -65,7 +66,8 @@ export namespace Selectors {
   export type Job = JobImage | JobInputs | JobOutputs;
 
   export type AccessTime = {
-    accessTime: RelationalOp<string>; // TODO: This should be a Date, but Date is not currently serializable as a JsonObject.
+    // `Date`s are sent as ISO 8601 strings. `Grant.condition` has them revived as `Date`s.
+    accessTime: RelationalOp<Date | string>;
   };
   // Environment-based selectors.
   export type WorkerId = {
@@ -196,3 +198,1198 @@ export type SetOp<T> =
   | SetOps.Subset<T>
   | SetOps.Values<T>
   | SetOps.Len<T>;
+
+/**
+ * A `Condition` made by the `cond` builder. It is the plain condition object, with
+ * non-enumerable methods for combining it with other conditions, so it can be used (and
+ * serialized) anywhere a `Condition` is expected.
+ */
+export type BuiltCondition<C extends Condition = Condition> = C & {
+  /** Returns `{ $and: [this, ...others] }`. */
+  and: (...others: Condition[]) => BuiltCondition<LogicalOps.And>;
+
+  /** Returns `{ $or: [this, ...others] }`. */
+  or: (...others: Condition[]) => BuiltCondition<LogicalOps.Or>;
+
+  /** Returns `{ $nor: [this, ...others] }`. */
+  nor: (...others: Condition[]) => BuiltCondition<LogicalOps.Nor>;
+
+  /** Returns `{ $not: this }`. */
+  not: () => BuiltCondition<LogicalOps.Not>;
+};
+
+function chain<C extends Condition>(condition: C): BuiltCondition<C> {
+  const method = (value: (...args: any[]) => BuiltCondition) => ({ value, enumerable: false });
+  return Object.defineProperties(condition, {
+    and: method((...others: Condition[]) => cond.and(condition, ...others)),
+    or: method((...others: Condition[]) => cond.or(condition, ...others)),
+    nor: method((...others: Condition[]) => cond.nor(condition, ...others)),
+    not: method(() => cond.not(condition)),
+  }) as BuiltCondition<C>;
+}
+
+/** Builds relational operators on `T`, wrapped into the enclosing condition by `wrap`. */
+function relationalOps<T, R>(wrap: (op: RelationalOp<T>) => R) {
+  return {
+    eq: (value: T) => wrap({ $eq: value }),
+    ne: (value: T) => wrap({ $ne: value }),
+    gt: (value: T) => wrap({ $gt: value }),
+    gte: (value: T) => wrap({ $gte: value }),
+    lt: (value: T) => wrap({ $lt: value }),
+    lte: (value: T) => wrap({ $lte: value }),
+    in: (values: T[]) => wrap({ $in: values }),
+    nin: (values: T[]) => wrap({ $nin: values }),
+  };
+}
+
+function arrayOps<T, R>(wrap: (op: ArrayOp<T>) => R) {
+  return {
+    /** Selects arrays with any element that satisfies the operator. */
+    any: relationalOps<T, R>((op) => wrap({ $any: op })),
+
+    /** Selects arrays whose elements all satisfy the operator. */
+    all: relationalOps<T, R>((op) => wrap({ $all: op })),
+
+    /** Selects arrays whose length satisfies the operator. */
+    size: relationalOps<number, R>((op) => wrap({ $size: op } as unknown as ArrayOp<T>)),
+  };
+}
+
+function setOps<T, R>(wrap: (op: SetOp<T>) => R) {
+  return {
+    contains: (value: T) => wrap({ $contains: value }),
+    intersects: (values: T[]) => wrap({ $intersects: values }),
+    superset: (values: T[]) => wrap({ $superset: values }),
+    subset: (values: T[]) => wrap({ $subset: values }),
+
+    /** Applies array operators to the values of the set. */
+    values: arrayOps<T, R>((op) => wrap({ $values: op })),
+
+    /** Selects sets whose size satisfies the operator. */
+    size: relationalOps<number, R>((op) => wrap({ $size: op } as unknown as SetOp<T>)),
+  };
+}
+
+function relational<S extends Selector, T>(selector: keyof S & string) {
+  return relationalOps<T, BuiltCondition<S>>((op) => chain({ [selector]: op } as unknown as S));
+}
+
+function set<S extends Selector, T>(selector: keyof S & string) {
+  return setOps<T, BuiltCondition<S>>((op) => chain({ [selector]: op } as unknown as S));
+}
+
+/**
+ * A type-safe builder of conditions. For example,
+ * ```ts
+ * cond.document.tags.contains('x').and(cond.job.image.eq('bash'))
+ * ```
+ * builds
+ * ```ts
+ * { $and: [{ 'document.tags': { $contains: 'x' } }, { 'job.spec.image': { $eq: 'bash' } }] }
+ * ```
+ */
+export const cond = {
+  identity: {
+    id: relational<Selectors.IdentityId, $IdentityId>('identity.id'),
+  },
+
+  document: {
+    id: relational<Selectors.DocumentId, $DocumentId>('document.id'),
+    creator: relational<Selectors.DocumentCreator, $IdentityId>('document.creator'),
+    owner: relational<Selectors.DocumentOwner, $IdentityId>('document.owner'),
+    title: relational<Selectors.DocumentTitle, string>('document.title'),
+    tags: set<Selectors.DocumentTags, string>('document.tags'),
+  },
+
+  database: {
+    id: relational<Selectors.DatabaseId, $DatabaseId>('database.id'),
+    creator: relational<Selectors.DatabaseCreator, $IdentityId>('database.creator'),
+    owner: relational<Selectors.DatabaseOwner, $IdentityId>('database.owner'),
+    name: relational<Selectors.DatabaseName, string>('database.name'),
+  },
+
+  job: {
+    image: relational<Selectors.JobImage, string>('job.spec.image'),
+    inputs: relational<Selectors.JobInputs, $InputDocumentSpec>('job.spec.inputs'),
+    outputs: relational<Selectors.JobOutputs, $OutputDocumentSpec>('job.spec.outputs'),
+  },
+
+  accessTime: relational<Selectors.AccessTime, Date | string>('accessTime'),
+
+  and: (...conditions: Condition[]) => chain<LogicalOps.And>({ $and: conditions }),
+  or: (...conditions: Condition[]) => chain<LogicalOps.Or>({ $or: conditions }),
+  nor: (...conditions: Condition[]) => chain<LogicalOps.Nor>({ $nor: conditions }),
+  not: (condition: Condition) => chain<LogicalOps.Not>({ $not: condition }),
+
+  /** Satisfied when all of the conditions are. Same as `cond.and`. */
+  allOf: (...conditions: Condition[]) => cond.and(...conditions),
+
+  /** Satisfied when any of the conditions is. Same as `cond.or`. */
+  anyOf: (...conditions: Condition[]) => cond.or(...conditions),
+
+  /** Satisfied when none of the conditions is. Same as `cond.nor`. */
+  noneOf: (...conditions: Condition[]) => cond.nor(...conditions),
+};
+
+/** Thrown when a condition is malformed, e.g., it uses an unknown selector or operator. */
+export class ConditionError extends Error {
+  name = 'ConditionError';
+
+  public constructor(message: string) {
+    super(message);
+  }
+}
+
+/**
+ * The values that a condition is evaluated against by `evaluateCondition`. Selectors whose
+ * values are not given are treated as unset.
+ */
+export type ConditionContext = AccessContext & {
+  /** The document being accessed. A `Document` can be used as-is. */
+  document?: {
+    id?: $DocumentId;
+    creator?: $IdentityId;
+    owner?: $IdentityId;
+    details?: { title?: string; tags?: string[] };
+  };
+
+  /** The database being accessed. A `Database` can be used as-is. */
+  database?: {
+    id?: $DatabaseId;
+    creator?: $IdentityId;
+    owner?: $IdentityId;
+    name?: string;
+  };
+
+  /** The worker running the job. */
+  worker?: {
+    id?: $IdentityId;
+    version?: string;
+  };
+};
+
+/** Explains the result of evaluating a (sub-)condition. */
+export type ConditionTrace = {
+  condition: Condition;
+  result: boolean;
+
+  /** A human-readable explanation of the result. */
+  explanation: string;
+
+  /** The traces of the sub-conditions of a logical operator. */
+  children?: ConditionTrace[];
+};
+
+export type ConditionEvaluation = {
+  /** Whether the context satisfies the condition. */
+  result: boolean;
+  trace: ConditionTrace;
+};
+
+const SELECTOR_VALUES: Record<string, (context: ConditionContext) => unknown> = {
+  'identity.id': (c) => c.accessor,
+  'document.id': (c) => c.document?.id,
+  'document.creator': (c) => c.document?.creator,
+  'document.owner': (c) => c.document?.owner,
+  'document.title': (c) => c.document?.details?.title,
+  'document.tags': (c) => c.document?.details?.tags,
+  'database.id': (c) => c.database?.id,
+  'database.creator': (c) => c.database?.creator,
+  'database.owner': (c) => c.database?.owner,
+  'database.name': (c) => c.database?.name,
+  'job.spec.image': (c) => c.job?.image,
+  'job.spec.inputs': (c) => c.job?.inputDocuments,
+  'job.spec.outputs': (c) => c.job?.outputDocuments,
+  accessTime: (c) => c.accessTime,
+  'worker.id': (c) => c.worker?.id,
+  'worker.version': (c) => c.worker?.version,
+};
+
+/**
+ * Evaluates a condition against a local context, without calling the gateway. This is useful
+ * for checking ahead of time whether a grant would allow an access.
+ *
+ * Relational operators on array-valued selectors (`job.spec.inputs` and `job.spec.outputs`)
+ * are satisfied when any element satisfies them. Unset values satisfy only `$ne` and `$nin`.
+ * `Date`s are compared with each other, and with date strings, as points in time.
+ *
+ * @returns whether the context satisfies the condition, and a trace explaining which
+ * sub-conditions did.
+ * @throws `ConditionError` if the condition is malformed.
+ */
+export function evaluateCondition(
+  condition: Condition,
+  context: ConditionContext,
+): ConditionEvaluation {
+  const trace = traceCondition(condition, context);
+  return { result: trace.result, trace };
+}
+
+function traceCondition(condition: Condition, context: ConditionContext): ConditionTrace {
+  const [key, operand] = singleEntry(condition, 'condition');
+  const logicalOps: Record<string, (results: boolean[]) => boolean> = {
+    $and: (results) => results.every(Boolean),
+    $or: (results) => results.some(Boolean),
+    $nor: (results) => !results.some(Boolean),
+    $not: ([result]) => !result,
+  };
+
+  if (key in logicalOps) {
+    const operands = key === '$not' ? [operand] : operand;
+    if (!Array.isArray(operands))
+      throw new ConditionError(`\`${key}\` takes an array of conditions`);
+    const children = operands.map((child: Condition) => traceCondition(child, context));
+    const results = children.map(({ result }) => result);
+    const result = logicalOps[key](results);
+    const numMatched = results.filter(Boolean).length;
+    const explanation =
+      key === '$not'
+        ? `\`$not\` is ${String(result)} because its condition is ${String(!result)}`
+        : `\`${key}\` is ${String(result)} because ${numMatched} of ${
+            results.length
+          } conditions are true`;
+    return { condition, result, explanation, children };
+  }
+
+  const getValue = SELECTOR_VALUES[key];
+  if (!getValue) throw new ConditionError(`unknown selector \`${key}\``);
+  const value = getValue(context);
+  const result =
+    key === 'document.tags'
+      ? evaluateSetOp(operand, value as unknown[] | undefined)
+      : evaluateRelationalOp(operand, value, Array.isArray(value));
+  const explanation = `\`${key}\` is ${show(value)}, which ${
+    result ? 'satisfies' : 'does not satisfy'
+  } ${show(operand)}`;
+  return { condition, result, explanation };
+}
+
+function evaluateRelationalOp(op: unknown, value: unknown, matchAnyElement = false): boolean {
+  const [key, operand] = singleEntry(op, 'operator');
+  if (matchAnyElement) {
+    const elements = value as unknown[];
+    // Negated operators must hold for every element, so that `$ne` is the inverse of `$eq`.
+    if (key === '$ne' || key === '$nin') {
+      return elements.every((element) => evaluateRelationalOp(op, element));
+    }
+
+    return elements.some((element) => evaluateRelationalOp(op, element));
+  }
+
+  const isOneOf = () => {
+    if (!Array.isArray(operand)) throw new ConditionError(`\`${key}\` takes an array`);
+    return operand.some((o) => isEqual(value, o));
+  };
+
+  switch (key) {
+    case '$eq':
+      return value !== undefined && isEqual(value, operand);
+    case '$ne':
+      return value === undefined || !isEqual(value, operand);
+    case '$in':
+      return value !== undefined && isOneOf();
+    case '$nin':
+      return value === undefined || !isOneOf();
+    case '$gt':
+      return compare(value, operand, (c) => c > 0);
+    case '$gte':
+      return compare(value, operand, (c) => c >= 0);
+    case '$lt':
+      return compare(value, operand, (c) => c < 0);
+    case '$lte':
+      return compare(value, operand, (c) => c <= 0);
+    default:
+      throw new ConditionError(`unknown relational operator \`${key}\``);
+  }
+}
+
+function evaluateArrayOp(op: unknown, values: unknown[]): boolean {
+  const [key, operand] = singleEntry(op, 'operator');
+  switch (key) {
+    case '$any':
+      return values.some((value) => evaluateRelationalOp(operand, value));
+    case '$all':
+      return values.every((value) => evaluateRelationalOp(operand, value));
+    case '$size':
+      return evaluateRelationalOp(operand, values.length);
+    default:
+      throw new ConditionError(`unknown array operator \`${key}\``);
+  }
+}
+
+function evaluateSetOp(op: unknown, value: unknown[] | undefined): boolean {
+  const [key, operand] = singleEntry(op, 'operator');
+  const values = value ?? [];
+  const has = (element: unknown) => values.some((v) => isEqual(v, element));
+  const operands = () => {
+    if (!Array.isArray(operand)) throw new ConditionError(`\`${key}\` takes an array`);
+    return operand as unknown[];
+  };
+
+  switch (key) {
+    case '$contains':
+      return has(operand);
+    case '$intersects':
+      return operands().some((o) => has(o));
+    case '$superset':
+      return operands().every((o) => has(o));
+    case '$subset':
+      return values.every((v) => operands().some((o) => isEqual(v, o)));
+    case '$values':
+      return evaluateArrayOp(operand, values);
+    case '$size':
+      return evaluateRelationalOp(operand, values.length);
+    default:
+      throw new ConditionError(`unknown set operator \`${key}\``);
+  }
+}
+
+/** Returns the only key of a condition or operator, and its value. */
+function singleEntry(object: unknown, kind: string): [string, any] {
+  const entries = typeof object === 'object' && object !== null ? Object.entries(object) : [];
+  if (entries.length !== 1) {
+    throw new ConditionError(`${kind} must have exactly one key, but got ${show(object)}`);
+  }
+
+  return entries[0];
+}
+
+function isEqual(a: unknown, b: unknown): boolean {
+  if (a instanceof Date || b instanceof Date) return toTime(a) === toTime(b);
+  if (typeof a !== 'object' || typeof b !== 'object' || a === null || b === null) return a === b;
+  if (Array.isArray(a) !== Array.isArray(b)) return false;
+  const aEntries = Object.entries(a).filter(([, v]) => v !== undefined);
+  const bEntries = Object.entries(b).filter(([, v]) => v !== undefined);
+  return (
+    aEntries.length === bEntries.length &&
+    aEntries.every(([k, v]) => isEqual(v, (b as Record<string, unknown>)[k]))
+  );
+}
+
+/**
+ * Compares numbers, strings (by code unit, not by locale), and points in time. Incomparable
+ * values satisfy no comparison.
+ */
+function compare(a: unknown, b: unknown, test: (comparison: number) => boolean): boolean {
+  let [x, y] = [a, b];
+  if (a instanceof Date || b instanceof Date) [x, y] = [toTime(a), toTime(b)];
+  if (typeof x === 'number' && typeof y === 'number') {
+    return !Number.isNaN(x) && !Number.isNaN(y) && test(x - y);
+  }
+
+  if (typeof x === 'string' && typeof y === 'string') return test(x < y ? -1 : x > y ? 1 : 0);
+  return false;
+}
+
+function toTime(value: unknown): number {
+  if (value instanceof Date) return value.getTime();
+  if (typeof value === 'string') return Date.parse(value);
+  if (typeof value === 'number') return value;
+  return Number.NaN;
+}
+
+function show(value: unknown): string {
+  return value === undefined ? 'unset' : JSON.stringify(value);
+}
+
+/** A problem with a part of a condition, as found by `validateCondition`. */
+export type ConditionIssue = {
+  /** The JSON path of the invalid part, e.g. `$.$and[0]['document.tags'].$contains`. */
+  path: string;
+  message: string;
+};
+
+/** Thrown when a condition is invalid and would be rejected by the gateway. */
+export class InvalidConditionError extends ConditionError {
+  name = 'InvalidConditionError';
+
+  public constructor(public readonly issues: ConditionIssue[]) {
+    super(
+      `invalid condition: ${issues
+        .map(({ path, message }) => `\`${path}\` ${message}`)
+        .join('; ')}`,
+    );
+  }
+}
+
+/** The type of the values selected by a selector, or of the operands of an operator. */
+type ValueKind = 'id' | 'string' | 'time' | 'number' | 'inputDocument' | 'outputDocument';
+
+const VALUE_KIND_NAMES: Record<ValueKind, string> = {
+  id: 'an ID',
+  string: 'a string',
+  time: 'a time',
+  number: 'a number',
+  inputDocument: 'an input document `{ id, mountPath }`',
+  outputDocument: 'an output document `{ mountPath, owner? }`',
+};
+
+/**
+ * Kinds of values that can be ordered by `$gt`, `$gte`, `$lt`, and `$lte`. IDs and strings are
+ * ordered by code unit.
+ */
+const COMPARABLE_KINDS = new Set<ValueKind>(['id', 'string', 'time', 'number']);
+
+/** The kinds of values selected by each of `Selectors`, or `set` for sets of strings. */
+const SELECTOR_KINDS: Record<string, ValueKind | 'set'> = {
+  'identity.id': 'id',
+  'document.id': 'id',
+  'document.creator': 'id',
+  'document.owner': 'id',
+  'document.title': 'string',
+  'document.tags': 'set',
+  'database.id': 'id',
+  'database.creator': 'id',
+  'database.owner': 'id',
+  'database.name': 'string',
+  'job.spec.image': 'string',
+  'job.spec.inputs': 'inputDocument',
+  'job.spec.outputs': 'outputDocument',
+  accessTime: 'time',
+  'worker.id': 'id',
+  'worker.version': 'string',
+};
+
+const SET_OPS = new Set(['$contains', '$intersects', '$superset', '$subset', '$values', '$size']);
+
+/**
+ * Checks a condition, which may come from untrusted input like a config file, for problems that
+ * the gateway would reject it for: unknown selectors or operators, and operands of the wrong
+ * type. Ordering operators (`$gt`, `$gte`, `$lt`, and `$lte`) apply only to IDs, strings, times,
+ * and sizes, and set operators apply only to `document.tags`.
+ * @returns the problems found, which is empty if the condition is valid.
+ */
+export function validateCondition(condition: unknown): ConditionIssue[] {
+  const issues: ConditionIssue[] = [];
+  validateNode(condition, '$', issues);
+  return issues;
+}
+
+function validateNode(condition: unknown, path: string, issues: ConditionIssue[]): void {
+  const entry = validateSingleEntry(condition, 'a condition', path, issues);
+  if (!entry) return;
+  const [key, operand] = entry;
+  const operandPath = jsonPath(path, key);
+  switch (key) {
+    case '$and':
+    case '$or':
+    case '$nor':
+      if (Array.isArray(operand)) {
+        for (const [i, child] of operand.entries()) {
+          validateNode(child, jsonPath(operandPath, i), issues);
+        }
+      } else {
+        issues.push({ path: operandPath, message: 'must be an array of conditions' });
+      }
+
+      return;
+    case '$not':
+      validateNode(operand, operandPath, issues);
+      return;
+    default:
+  }
+
+  const kind = SELECTOR_KINDS[key];
+  if (kind === 'set') {
+    validateSetOp(operand, operandPath, issues);
+  } else if (kind) {
+    validateRelationalOp(operand, kind, operandPath, issues);
+  } else {
+    const message = key.startsWith('$')
+      ? 'is not a logical operator'
+      : 'is not a selector, like `document.id`';
+    issues.push({ path: operandPath, message });
+  }
+}
+
+function validateRelationalOp(
+  op: unknown,
+  kind: ValueKind,
+  path: string,
+  issues: ConditionIssue[],
+): void {
+  const entry = validateSingleEntry(op, 'a relational operator', path, issues);
+  if (!entry) return;
+  const [key, operand] = entry;
+  const operandPath = jsonPath(path, key);
+  switch (key) {
+    case '$gt':
+    case '$gte':
+    case '$lt':
+    case '$lte':
+      if (COMPARABLE_KINDS.has(kind)) {
+        validateValue(operand, kind, operandPath, issues);
+      } else {
+        issues.push({
+          path: operandPath,
+          message: `cannot compare ${VALUE_KIND_NAMES[kind]}, which is not ordered`,
+        });
+      }
+
+      return;
+    case '$eq':
+    case '$ne':
+      validateValue(operand, kind, operandPath, issues);
+      return;
+    case '$in':
+    case '$nin':
+      validateValues(operand, kind, operandPath, issues);
+      return;
+    default: {
+      const message = SET_OPS.has(key)
+        ? 'is a set operator, which applies only to `document.tags`'
+        : 'is not a relational operator';
+      issues.push({ path: operandPath, message });
+    }
+  }
+}
+
+function validateSetOp(op: unknown, path: string, issues: ConditionIssue[]): void {
+  const entry = validateSingleEntry(op, 'a set operator', path, issues);
+  if (!entry) return;
+  const [key, operand] = entry;
+  const operandPath = jsonPath(path, key);
+  switch (key) {
+    case '$contains':
+      validateValue(operand, 'string', operandPath, issues);
+      return;
+    case '$intersects':
+    case '$superset':
+    case '$subset':
+      validateValues(operand, 'string', operandPath, issues);
+      return;
+    case '$size':
+      validateRelationalOp(operand, 'number', operandPath, issues);
+      return;
+    case '$values': {
+      const arrayEntry = validateSingleEntry(operand, 'an array operator', operandPath, issues);
+      if (!arrayEntry) return;
+      const [arrayKey, arrayOperand] = arrayEntry;
+      const arrayOperandPath = jsonPath(operandPath, arrayKey);
+      if (arrayKey === '$any' || arrayKey === '$all' || arrayKey === '$size') {
+        const kind = arrayKey === '$size' ? 'number' : 'string';
+        validateRelationalOp(arrayOperand, kind, arrayOperandPath, issues);
+      } else {
+        issues.push({ path: arrayOperandPath, message: 'is not an array operator' });
+      }
+
+      return;
+    }
+
+    default:
+      issues.push({ path: operandPath, message: 'is not a set operator' });
+  }
+}
+
+function validateValue(value: unknown, kind: ValueKind, path: string, issues: ConditionIssue[]) {
+  const isString = (v: unknown) => typeof v === 'string';
+  const isObject = (v: unknown): v is Record<string, unknown> =>
+    typeof v === 'object' && v !== null && !Array.isArray(v);
+  let valid: boolean;
+  switch (kind) {
+    case 'id':
+    case 'string':
+      valid = isString(value);
+      break;
+    case 'time':
+      valid = (value instanceof Date || isString(value)) && !Number.isNaN(toTime(value));
+      break;
+    case 'number':
+      valid = typeof value === 'number';
+      break;
+    case 'inputDocument':
+      valid = isObject(value) && isString(value.id) && isString(value.mountPath);
+      break;
+    case 'outputDocument':
+      valid =
+        isObject(value) &&
+        isString(value.mountPath) &&
+        (value.owner === undefined || isString(value.owner));
+      break;
+    default:
+      valid = false;
+  }
+
+  if (!valid) {
+    issues.push({ path, message: `must be ${VALUE_KIND_NAMES[kind]}, but got ${show(value)}` });
+  }
+}
+
+function validateValues(values: unknown, kind: ValueKind, path: string, issues: ConditionIssue[]) {
+  if (!Array.isArray(values)) {
+    issues.push({ path, message: `must be an array, but got ${show(values)}` });
+    return;
+  }
+
+  for (const [i, value] of values.entries()) validateValue(value, kind, jsonPath(path, i), issues);
+}
+
+function validateSingleEntry(
+  object: unknown,
+  kind: string,
+  path: string,
+  issues: ConditionIssue[],
+): [string, unknown] | undefined {
+  if (typeof object !== 'object' || object === null || Array.isArray(object)) {
+    issues.push({ path, message: `must be ${kind}, but got ${show(object)}` });
+    return undefined;
+  }
+
+  const entries = Object.entries(object);
+  if (entries.length !== 1) {
+    issues.push({ path, message: `must have exactly one key, but got ${show(object)}` });
+    return undefined;
+  }
+
+  return entries[0];
+}
+
+function jsonPath(path: string, key: string | number): string {
+  if (typeof key === 'number') return `${path}[${key}]`;
+  return /^[$A-Za-z_][\w$]*$/.test(key) ? `${path}.${key}` : `${path}['${key}']`;
+}
+
+/** Relational operators whose negation is also a relational operator, even for unset values. */
+const INVERSE_OPS: Record<string, string> = { $eq: '$ne', $ne: '$eq', $in: '$nin', $nin: '$in' };
+
+/**
+ * Rewrites a condition into a canonical form, so that conditions that differ only in how they
+ * were composed compare equal, e.g., to deduplicate grants. The canonical form
+ * - pushes `$not` and `$nor` inward, using De Morgan's laws, until they apply to selectors.
+ *   `$not` of `$eq`, `$ne`, `$in`, or `$nin` is replaced by the inverse operator;
+ * - flattens nested `$and`s and `$or`s, and removes duplicate and redundant operands;
+ * - merges `$eq` and `$in` on the same selector in an `$or`, and `$ne` and `$nin` on the same
+ *   selector in an `$and`;
+ * - sorts operands, the values of `$in` and `$nin`, and the keys of values.
+ *
+ * The result is satisfied by exactly the same contexts as the condition, as evaluated by
+ * `evaluateCondition`.
+ * @throws `ConditionError` if the condition is malformed.
+ */
+export function normalizeCondition(condition: Condition): Condition {
+  return normalizeNode(condition, false);
+}
+
+function normalizeNode(condition: Condition, negated: boolean): Condition {
+  const [key, operand] = singleEntry(condition, 'condition');
+  switch (key) {
+    case '$not':
+      return normalizeNode(operand, !negated);
+    case '$nor':
+      return normalizeNode({ $or: operand }, !negated);
+    case '$and':
+    case '$or': {
+      if (!Array.isArray(operand)) {
+        throw new ConditionError(`\`${key}\` takes an array of conditions`);
+      }
+
+      // De Morgan's laws turn a negated `$and` into an `$or` of negations, and vice versa.
+      const combinedKey = (key === '$and') === negated ? '$or' : '$and';
+      return combine(
+        combinedKey,
+        operand.map((child: Condition) => normalizeNode(child, negated)),
+      );
+    }
+
+    default:
+      return normalizeSelector(key, operand, negated);
+  }
+}
+
+function normalizeSelector(selector: string, op: unknown, negated: boolean): Condition {
+  let [key, operand] = singleEntry(selector === 'accessTime' ? reviveTimes(op) : op, 'operator');
+  if (negated) {
+    if (!(key in INVERSE_OPS)) return { $not: normalizeSelector(selector, op, false) };
+    key = INVERSE_OPS[key];
+  }
+
+  if ((key === '$in' || key === '$nin') && Array.isArray(operand)) {
+    operand = uniqueSorted(operand);
+    if (operand.length === 1) [key, operand] = [key === '$in' ? '$eq' : '$ne', operand[0]];
+  } else {
+    operand = sortKeys(operand);
+  }
+
+  const normalized: any = { [selector]: { [key]: operand } };
+  return normalized as Selector;
+}
+
+/** Combines normalized conditions into a normalized `$and` or `$or`. */
+function combine(key: '$and' | '$or', conditions: Condition[]): Condition {
+  // `{ $and: [] }` is always true and `{ $or: [] }` is always false, so one is redundant in an
+  // `$and` and the other in an `$or`, and one of the other makes the whole condition constant.
+  const absorbingKey = key === '$and' ? '$or' : '$and';
+  const operands: Condition[] = [];
+  for (const condition of conditions) {
+    const [childKey, childOperand] = Object.entries(condition)[0];
+    if (childKey === key) operands.push(...childOperand);
+    else if (childKey === absorbingKey && childOperand.length === 0) return condition;
+    else operands.push(condition);
+  }
+
+  // `s = a or s in [b, c]` is `s in [a, b, c]`, and `s != a and s not in [b, c]` is
+  // `s not in [a, b, c]`. This holds for array-valued selectors, too.
+  const [singleOp, setOp] = key === '$or' ? ['$eq', '$in'] : ['$ne', '$nin'];
+  const mergedValues = new Map<string, unknown[]>();
+  const merged: Condition[] = [];
+  for (const operand of operands) {
+    const [selector, op] = Object.entries(operand)[0];
+    const [opKey, opOperand] = selector.startsWith('$') ? [] : Object.entries(op)[0];
+    if (opKey === singleOp || (opKey === setOp && Array.isArray(opOperand))) {
+      const values = mergedValues.get(selector) ?? [];
+      if (values.length === 0) mergedValues.set(selector, values);
+      values.push(...(opKey === setOp ? (opOperand as unknown[]) : [opOperand]));
+    } else {
+      merged.push(operand);
+    }
+  }
+
+  for (const [selector, values] of mergedValues) {
+    merged.push(normalizeSelector(selector, { [setOp]: values }, false));
+  }
+
+  const unique = uniqueSorted(merged);
+  if (unique.length === 1) return unique[0];
+  return key === '$and' ? { $and: unique } : { $or: unique };
+}
+
+/** Removes duplicates from `values`, and sorts them by their canonical JSON. */
+function uniqueSorted<T>(values: T[]): T[] {
+  const valuesByKey = new Map(values.map((value) => [JSON.stringify(sortKeys(value)), value]));
+  return [...valuesByKey.keys()].sort().map((key) => sortKeys(valuesByKey.get(key)!));
+}
+
+/** Returns a copy of `value` whose objects have their keys sorted. */
+function sortKeys<T>(value: T): T {
+  if (Array.isArray(value)) return value.map((v) => sortKeys(v)) as unknown as T;
+  if (typeof value !== 'object' || value === null || value instanceof Date) return value;
+  const entries = Object.entries(value).filter(([, v]) => v !== undefined);
+  return Object.fromEntries(
+    entries.sort(([a], [b]) => (a < b ? -1 : a > b ? 1 : 0)).map(([k, v]) => [k, sortKeys(v)]),
+  ) as T;
+}
+
+/**
+ * Returns a copy of a condition in which the date strings compared with `accessTime` are
+ * `Date`s, as they were before the condition was serialized as JSON.
+ */
+export function reviveConditionDates(condition: Condition): Condition {
+  const [key, operand] = singleEntry(condition, 'condition');
+  if (key === '$not') return { $not: reviveConditionDates(operand) };
+  if (key === '$and' || key === '$or' || key === '$nor') {
+    if (!Array.isArray(operand)) return condition;
+    const operands = operand.map((child: Condition) => reviveConditionDates(child));
+    return { [key]: operands } as unknown as LogicalOp;
+  }
+
+  return key === 'accessTime' ? { accessTime: reviveTimes(operand) } : condition;
+}
+
+/** Converts the date strings among the operands of a relational operator to `Date`s. */
+function reviveTimes(op: any): any {
+  const [key, operand] = singleEntry(op, 'operator');
+  const revive = (value: unknown) =>
+    typeof value === 'string' && !Number.isNaN(Date.parse(value)) ? new Date(value) : value;
+  return { [key]: Array.isArray(operand) ? operand.map((v) => revive(v)) : revive(operand) };
+}
+
+/** Thrown by `parseCondition` when the text is not a valid condition. */
+export class ConditionSyntaxError extends ConditionError {
+  name = 'ConditionSyntaxError';
+
+  public constructor(
+    message: string,
+    /** The 1-based line of the error. */
+    public readonly line: number,
+    /** The 1-based column of the error. */
+    public readonly column: number,
+  ) {
+    super(`line ${line}, column ${column}: ${message}`);
+  }
+}
+
+export type PrintConditionOptions = {
+  /**
+   * Logical operators whose text would make the line longer than this are split across
+   * lines. Defaults to 80. Use `Infinity` to print the condition on a single line.
+   */
+  maxLineLength?: number;
+};
+
+const RELATIONAL_SYMBOLS: Record<string, string> = {
+  $eq: '=',
+  $ne: '!=',
+  $gt: '>',
+  $gte: '>=',
+  $lt: '<',
+  $lte: '<=',
+};
+const RELATIONAL_OPS = Object.fromEntries(
+  Object.entries(RELATIONAL_SYMBOLS).map(([op, symbol]) => [symbol, op]),
+);
+const SET_LIST_OPS = new Set(['$intersects', '$superset', '$subset']);
+const PATH_PATTERN = /^[A-Za-z_]\w*(\.[A-Za-z_]\w*)*$/;
+
+/**
+ * Prints a condition in a compact, human-readable syntax that `parseCondition` parses back
+ * into the same condition, e.g.,
+ * ```
+ * document.tags contains "csv" and (job.spec.image = "bash" or job.spec.image in ["sh"])
+ * ```
+ *
+ * Selectors are followed by an operator: `=`, `!=`, `>`, `>=`, `<`, `<=`, `in`, and `not in`
+ * (relational); `contains`, `intersects`, `superset`, `subset`, `size`, and `values`
+ * (set); and `any`, `all`, and `size` (array, after `values`). Operands are JSON values.
+ * Conditions are combined using `and`, `or`, `not`, and parentheses, and `nor(...)`.
+ *
+ * @throws `ConditionError` if the condition is malformed.
+ */
+export function printCondition(condition: Condition, options?: PrintConditionOptions): string {
+  return printNode(condition, '', options?.maxLineLength ?? 80);
+}
+
+function printNode(condition: Condition, indent: string, maxLineLength: number): string {
+  const [key, operand] = singleEntry(condition, 'condition');
+  const isLogical = key === '$and' || key === '$or' || key === '$nor';
+  if (!isLogical && key !== '$not') return printSelector(key, operand);
+
+  const fitsLine = (text: string) => indent.length + text.length <= maxLineLength;
+  if (key === '$not') {
+    const child = printNode(operand, indent, maxLineLength);
+    return `not ${
+      isInfix(operand) ? printGroup(child, indent, (text) => fitsLine(`not ${text}`)) : child
+    }`;
+  }
+
+  if (!Array.isArray(operand)) throw new ConditionError(`\`${key}\` takes an array of conditions`);
+  const children = operand as Condition[];
+  const name = key.slice(1);
+  const singleLine = printNodeOnLine(condition);
+  if (fitsLine(singleLine)) return singleLine;
+
+  if (key === '$nor' || children.length < 2) {
+    const innerIndent = `${indent}  `;
+    const lines = children.map((c) => innerIndent + printNode(c, innerIndent, maxLineLength));
+    return `${name}(\n${lines.join(',\n')}\n${indent})`;
+  }
+
+  return children
+    .map((child) => {
+      const text = printNode(child, indent, maxLineLength);
+      // Parenthesize children that would otherwise merge into this operator's operands.
+      return needsParens(key, child) ? printGroup(text, indent, fitsLine) : text;
+    })
+    .join(`\n${indent}${name} `);
+}
+
+/** Prints a condition on a single line. */
+function printNodeOnLine(condition: Condition): string {
+  const [key, operand] = singleEntry(condition, 'condition');
+  if (key === '$not') {
+    const child = printNodeOnLine(operand);
+    return isInfix(operand) ? `not (${child})` : `not ${child}`;
+  }
+
+  if (key !== '$and' && key !== '$or' && key !== '$nor') return printSelector(key, operand);
+  if (!Array.isArray(operand)) throw new ConditionError(`\`${key}\` takes an array of conditions`);
+  const children = operand as Condition[];
+  const name = key.slice(1);
+  if (key === '$nor' || children.length < 2) {
+    return `${name}(${children.map((c) => printNodeOnLine(c)).join(', ')})`;
+  }
+
+  return children
+    .map((child) =>
+      needsParens(key, child) ? `(${printNodeOnLine(child)})` : printNodeOnLine(child),
+    )
+    .join(` ${name} `);
+}
+
+function printGroup(text: string, indent: string, fitsLine: (text: string) => boolean): string {
+  if (!text.includes('\n') && fitsLine(`(${text})`)) return `(${text})`;
+  const innerIndent = `${indent}  `;
+  return `(\n${innerIndent}${text.replace(/\n/g, `\n  `)}\n${indent})`;
+}
+
+/** Whether a condition is printed as an infix `and` or `or`. */
+function isInfix(condition: Condition): boolean {
+  const [key, operand] = singleEntry(condition, 'condition');
+  return (key === '$and' || key === '$or') && Array.isArray(operand) && operand.length >= 2;
+}
+
+function needsParens(parentKey: string, child: Condition): boolean {
+  if (!isInfix(child)) return false;
+  // `and` binds tighter than `or`, so only an `and` in an `or` may go without parentheses.
+  return !(parentKey === '$or' && '$and' in child);
+}
+
+function printSelector(selector: string, op: unknown): string {
+  if (!PATH_PATTERN.test(selector)) throw new ConditionError(`unknown selector \`${selector}\``);
+  return `${selector} ${printOp(op)}`;
+}
+
+function printOp(op: unknown): string {
+  const [key, operand] = singleEntry(op, 'operator');
+  if (key in RELATIONAL_SYMBOLS) return `${RELATIONAL_SYMBOLS[key]} ${printValue(operand)}`;
+  switch (key) {
+    case '$in':
+      return `in ${printValue(operand)}`;
+    case '$nin':
+      return `not in ${printValue(operand)}`;
+    case '$contains':
+      return `contains ${printValue(operand)}`;
+    case '$any':
+    case '$all':
+    case '$size':
+    case '$values':
+      return `${key.slice(1)} ${printOp(operand)}`;
+    default:
+      if (SET_LIST_OPS.has(key)) return `${key.slice(1)} ${printValue(operand)}`;
+      throw new ConditionError(`unknown operator \`${key}\``);
+  }
+}
+
+function printValue(value: unknown): string {
+  if (Array.isArray(value)) return `[${value.map((v) => printValue(v)).join(', ')}]`;
+  if (value instanceof Date || typeof value !== 'object' || value === null) {
+    return JSON.stringify(value) ?? 'null';
+  }
+
+  const entries = Object.entries(value).filter(([, v]) => v !== undefined);
+  return `{${entries.map(([k, v]) => `${JSON.stringify(k)}: ${printValue(v)}`).join(', ')}}`;
+}
+
+/**
+ * Parses a condition printed by `printCondition`. `#` starts a comment that runs to the end
+ * of the line. Times compared with `accessTime` are parsed as `Date`s.
+ * @throws `ConditionSyntaxError` with the line and column of the first error.
+ */
+export function parseCondition(text: string): Condition {
+  return new ConditionParser(text).parse();
+}
+
+type Token = {
+  kind: 'word' | 'string' | 'number' | 'symbol' | 'end';
+  text: string;
+  line: number;
+  column: number;
+};
+
+const TOKEN_PATTERNS: Array<[Token['kind'] | 'space', RegExp]> = [
+  ['space', /\s+|#.*/y],
+  ['word', /[A-Za-z_]\w*(\.[A-Za-z_]\w*)*/y],
+  ['string', /"([^"\\\n]|\\.)*"/y],
+  ['number', /-?\d+(\.\d+)?([Ee][+-]?\d+)?/y],
+  ['symbol', /[!<>]=|[=<>()[\]{},:]/y],
+];
+
+function matchToken(text: string, offset: number): [Token['kind'] | 'space', string] | undefined {
+  for (const [kind, pattern] of TOKEN_PATTERNS) {
+    pattern.lastIndex = offset;
+    const token = pattern.exec(text)?.[0];
+    if (token) return [kind, token];
+  }
+
+  return undefined;
+}
+
+class ConditionParser {
+  private readonly tokens: Token[] = [];
+  private position = 0;
+
+  public constructor(text: string) {
+    let line = 1;
+    let lineStart = 0;
+    let offset = 0;
+    while (offset < text.length) {
+      const column = offset - lineStart + 1;
+      const match = matchToken(text, offset);
+      if (!match) {
+        throw new ConditionSyntaxError(`unexpected character \`${text[offset]}\``, line, column);
+      }
+
+      const [kind, token] = match;
+      if (kind !== 'space') this.tokens.push({ kind, text: token, line, column });
+      for (const [i, char] of [...token].entries()) {
+        if (char === '\n') {
+          line++;
+          lineStart = offset + i + 1;
+        }
+      }
+
+      offset += token.length;
+    }
+
+    this.tokens.push({ kind: 'end', text: '', line, column: offset - lineStart + 1 });
+  }
+
+  public parse(): Condition {
+    const condition = this.parseOr();
+    if (this.peek().kind !== 'end') this.fail('expected `and`, `or`, or the end of the condition');
+    return condition;
+  }
+
+  private parseOr(): Condition {
+    const operands = [this.parseAnd()];
+    while (this.accept('or')) operands.push(this.parseAnd());
+    return operands.length === 1 ? operands[0] : { $or: operands };
+  }
+
+  private parseAnd(): Condition {
+    const operands = [this.parseUnary()];
+    while (this.accept('and')) operands.push(this.parseUnary());
+    return operands.length === 1 ? operands[0] : { $and: operands };
+  }
+
+  private parseUnary(): Condition {
+    if (this.accept('not')) return { $not: this.parseUnary() };
+    if (this.accept('(')) {
+      const condition = this.parseOr();
+      this.expect(')');
+      return condition;
+    }
+
+    const token = this.peek();
+    const isCall = this.tokens[this.position + 1]?.text === '(';
+    if (isCall && (token.text === 'and' || token.text === 'or' || token.text === 'nor')) {
+      this.position += 2;
+      const operands: Condition[] = [];
+      if (!this.accept(')')) {
+        do operands.push(this.parseOr());
+        while (this.accept(','));
+        this.expect(')');
+      }
+
+      if (token.text === 'and') return { $and: operands };
+      if (token.text === 'or') return { $or: operands };
+      return { $nor: operands };
+    }
+
+    if (token.kind !== 'word') this.fail('expected a condition');
+    this.position++;
+    const selector = { [token.text]: this.parseSelectorOp() } as unknown as Selector;
+    return reviveConditionDates(selector);
+  }
+
+  private parseSelectorOp(): unknown {
+    const token = this.peek();
+    switch (token.text) {
+      case 'contains':
+        this.position++;
+        return { $contains: this.parseValue() };
+      case 'intersects':
+      case 'superset':
+      case 'subset':
+        this.position++;
+        return { [`$${token.text}`]: this.parseList() };
+      case 'values': {
+        this.position++;
+        const arrayOp = this.expect('any', 'all', 'size');
+        return { $values: { [`$${arrayOp.text}`]: this.parseRelationalOp() } };
+      }
+
+      case 'size':
+        this.position++;
+        return { $size: this.parseRelationalOp() };
+      default:
+        return this.parseRelationalOp();
+    }
+  }
+
+  private parseRelationalOp(): unknown {
+    const token = this.peek();
+    if (token.kind === 'symbol' && token.text in RELATIONAL_OPS) {
+      this.position++;
+      return { [RELATIONAL_OPS[token.text]]: this.parseValue() };
+    }
+
+    if (this.accept('in')) return { $in: this.parseList() };
+    if (this.accept('not')) {
+      this.expect('in');
+      return { $nin: this.parseList() };
+    }
+
+    return this.fail('expected an operator');
+  }
+
+  private parseList(): unknown[] {
+    if (this.peek().text !== '[') this.fail('expected a list');
+    return this.parseValue() as unknown[];
+  }
+
+  private parseValue(): unknown {
+    const token = this.peek();
+    this.position++;
+    switch (token.kind) {
+      case 'string':
+        try {
+          return JSON.parse(token.text);
+        } catch {
+          this.position--;
+          return this.fail('invalid string');
+        }
+
+      case 'number':
+        return Number(token.text);
+      case 'word':
+        if (token.text === 'true') return true;
+        if (token.text === 'false') return false;
+        if (token.text === 'null') return null;
+        break;
+      default:
+    }
+
+    if (token.text === '[') {
+      const values: unknown[] = [];
+      if (this.accept(']')) return values;
+      do values.push(this.parseValue());
+      while (this.accept(','));
+      this.expect(']');
+      return values;
+    }
+
+    if (token.text === '{') {
+      const object: Record<string, unknown> = {};
+      if (this.accept('}')) return object;
+      do {
+        if (this.peek().kind !== 'string') this.fail('expected a string key');
+        const key = this.parseValue() as string;
+        this.expect(':');
+        object[key] = this.parseValue();
+      } while (this.accept(','));
+
+      this.expect('}');
+      return object;
+    }
+
+    this.position--;
+    return this.fail('expected a value');
+  }
+
+  private peek(): Token {
+    return this.tokens[this.position];
+  }
+
+  /** Consumes the next token if it is `text`. */
+  private accept(text: string): boolean {
+    if (this.peek().text !== text || this.peek().kind === 'string') return false;
+    this.position++;
+    return true;
+  }
+
+  /** Consumes the next token, which must be one of `texts`. */
+  private expect(...texts: string[]): Token {
+    const token = this.peek();
+    if (!texts.some((text) => this.accept(text))) {
+      this.fail(`expected ${texts.map((text) => `\`${text}\``).join(' or ')}`);
+    }
+
+    return token;
+  }
+
+  private fail(message: string): never {
+    const token = this.peek();
+    const found = token.kind === 'end' ? 'the end of the condition' : `\`${token.text}\``;
+    throw new ConditionSyntaxError(`${message}, but found ${found}`, token.line, token.column);
+  }
+}
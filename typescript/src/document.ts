@@ -2,17 +2,39 @@ import type { ReadStream } from 'fs';
 
 import EventEmitter from 'eventemitter3';
 import FormData from 'form-data';
+import { HTTPError } from 'ky';
 import type { Readable } from 'readable-stream';
-import type { Opaque, SetOptional } from 'type-fest';
+import type { Except, Opaque, SetOptional } from 'type-fest';
 
 import type { AppId } from './app.js';
 import type { AccessContext } from './asset.js';
 import type { JobId } from './compute.js';
 import type { Condition } from './condition.js';
-import type { HttpClient, Download } from './http.js';
+import type { DocumentEncryption, EncryptionOptions } from './encryption.js';
+import {
+  decryptChunks,
+  encryptChunks,
+  encryptedChunkSize,
+  encryptedSize,
+  openEnvelope,
+  sealEnvelope,
+} from './encryption.js';
+import type { HttpClient, Download, DownloadOptions } from './http.js';
+import { ProgressTracker } from './http.js';
 import type { IdentityId } from './identity.js';
-import type { Model, Page, PageParams, PODModel, ResourceId, WritableExcluding } from './model.js';
-import { makePage } from './model.js';
+import type { Sha256 } from './integrity.js';
+import { createSha256 } from './integrity.js';
+import type {
+  Model,
+  Page,
+  PageParams,
+  PaginateOptions,
+  PODModel,
+  ResourceId,
+  WritableExcluding,
+} from './model.js';
+import { makePage, paginate } from './model.js';
+import type { RetryConfig } from './retry.js';
 
 export type DocumentId = Opaque<ResourceId, 'DocumentId'>;
 
@@ -32,7 +54,16 @@ export type PODAccessEvent = Readonly<{
   accessor: ResourceId;
 }>;
 
-type DocumentDetails = { title?: string; tags?: string[] };
+type DocumentDetails = {
+  title?: string;
+  tags?: string[];
+
+  /** The hex-encoded SHA-256 digest of the document's data, as computed by the uploader. */
+  sha256?: string;
+
+  /** Present if the document's data was encrypted by the uploader. */
+  encryption?: DocumentEncryption;
+};
 
 export class Document implements Model {
   public readonly id: DocumentId;
@@ -61,10 +92,17 @@ export class Document implements Model {
   /**
    * Downloads the private data referenced by the document if the authorized identity
    * has been granted access.
+   * The data is verified against the document's size and digest unless `options.integrity`
+   * is overridden.
    * @returns the decrypted data as a pipeable stream and AsyncIterable
    */
-  public download(): Download {
-    return DocumentImpl.download(this.#client, this.id);
+  public download(options?: DownloadOptions): Download {
+    return DocumentImpl.download(
+      this.#client,
+      this.id,
+      { integrity: { size: this.size, sha256: this.details.sha256 }, ...options },
+      this.details,
+    );
   }
 
   public async update(params: DocumentUpdateParams): Promise<Document> {
@@ -79,6 +117,18 @@ export class Document implements Model {
   public async history(filter?: ListAccessLogFilter & PageParams): Promise<Page<AccessEvent>> {
     return DocumentImpl.history(this.#client, this.id, filter);
   }
+
+  /** Iterates over every access of this document, fetching pages as needed. */
+  public iterateHistory(
+    filter?: ListAccessLogFilter & PageParams,
+    options?: PaginateOptions,
+  ): AsyncIterable<AccessEvent> {
+    return paginate(
+      async (f) => DocumentImpl.history(this.#client, this.id, f),
+      filter ?? {},
+      options,
+    );
+  }
 }
 
 export namespace DocumentImpl {
@@ -99,12 +149,46 @@ export namespace DocumentImpl {
     client: HttpClient,
     data: Storable,
     params: DocumentUploadParams | undefined | null,
+    options?: UploadOptions,
   ): Upload {
-    return new Upload(client, data, params ?? undefined);
+    return new Upload(client, data, params ?? undefined, options);
   }
 
-  export function download(client: HttpClient, id: DocumentId): Download {
-    return client.download(id);
+  /**
+   * Downloads the document's data, decrypting it if the document is encrypted. If the
+   * document's `details` aren't given, they're fetched to find out whether it is, but only if
+   * a key-encryption key is configured; otherwise, the data is downloaded as stored.
+   */
+  export function download(
+    client: HttpClient,
+    id: DocumentId,
+    options?: DownloadOptions,
+    details?: DocumentDetails,
+  ): Download {
+    const keyEncryptionKey = options?.keyEncryptionKey ?? client.encryption?.keyEncryptionKey;
+    if (details ? !details.encryption : !keyEncryptionKey) return client.download(id, options);
+    return client.download(id, options, async function* (data) {
+      const { encryption } = details ?? (await get(client, id)).details;
+      if (!encryption) {
+        yield* data;
+        return;
+      }
+
+      if (!keyEncryptionKey) {
+        throw new Error(`document ${id} is encrypted, but no key-encryption key was provided`);
+      }
+
+      if (options?.range) {
+        throw new Error(`document ${id} is encrypted, so it can't be downloaded in ranges`);
+      }
+
+      const dataKey = await openEnvelope(encryption, keyEncryptionKey);
+      yield* decryptChunks(
+        dataKey,
+        encryption,
+        readChunks(data, encryptedChunkSize(encryption), 0),
+      );
+    });
   }
 
   export async function history(
@@ -217,27 +301,201 @@ export type ListAccessLogFilter = Partial<{
   before: Date;
 }>;
 
+export type UploadOptions = Partial<{
+  /**
+   * Uploads the data in chunks, each of which is committed by the server separately.
+   * An interrupted resumable upload can be continued later by passing its `session`.
+   *
+   * This assumes a storage protocol that the server must support: an upload session is created
+   * by `POST uploads`, read by `GET uploads/:id`, filled with `PUT uploads/:id`, and turned
+   * into a document by `POST uploads/:id/complete`. If the server responds to `POST uploads`
+   * with a 404, the data is uploaded in a single request instead.
+   */
+  resumable: boolean;
+
+  /** The size in bytes of each chunk of a resumable upload. Defaults to 8 MiB. */
+  chunkSize: number;
+
+  /**
+   * The session of a previously interrupted resumable upload, as emitted by its `session` event.
+   * The upload resumes from the last byte committed by the server. The `data` must be the
+   * same as that of the original upload. Implies `resumable`.
+   */
+  session: UploadSession;
+
+  /**
+   * Whether to compute the SHA-256 digest of the data while uploading it and store it in the
+   * document's `details.sha256`, so that downloads can be verified. By default, the digest is
+   * sent with the metadata of in-memory data and of resumable uploads, and other streams are not
+   * hashed. If `true`, streams are hashed too, and their digest is stored by updating the
+   * document after it has been uploaded, which requires permission to update it.
+   */
+  digest: boolean;
+
+  /**
+   * Encrypts the data before it is uploaded. Defaults to the client's `encryption` config;
+   * set to `false` to upload unencrypted data regardless. Resuming an encrypted upload requires
+   * a key-encryption key that can unwrap its data key (e.g., the private RSA key).
+   */
+  encryption: EncryptionOptions | false;
+
+  /**
+   * Overrides the client's retry config for every request of the upload. A stream can be read
+   * only once, so a stream that is not uploaded resumably is never retried.
+   */
+  retry: RetryConfig | false;
+
+  /**
+   * A unique key that lets the server deduplicate the request that creates the document or,
+   * for a resumable upload, its session. Setting this makes that request eligible for retries.
+   */
+  idempotencyKey: string;
+}>;
+
+export type UploadSessionId = Opaque<ResourceId, 'UploadSessionId'>;
+
+/**
+ * The state of a resumable upload. This is a plain JSON-serializable object,
+ * so it can be persisted and later used to resume an interrupted upload.
+ */
+export type UploadSession = {
+  id: UploadSessionId;
+
+  /** The number of bytes committed by the server. */
+  offset: number;
+
+  chunkSize: number;
+
+  /** How the uploaded data is encrypted, if it is. Contains only the wrapped data key. */
+  encryption?: DocumentEncryption;
+};
+
+type PODUploadSession = Readonly<{
+  id: ResourceId;
+  offset: number;
+}>;
+
+const DEFAULT_CHUNK_SIZE = 8 * 1024 * 1024;
+
 /**
  * An `Upload` is the result of calling `parcel.uploadDocument`.
  *
- * During upload, emits `progress` events, each with a `ProgressEvent` as its argument.
+ * During upload, emits `progress` events, each with a `TransferProgress` as its argument.
+ * In Node, progress is reported as the request body is sent. Browsers don't expose the
+ * progress of a `fetch` upload, so a non-resumable upload reports progress only when it
+ * finishes; use a `resumable` upload for per-chunk progress.
+ *
+ * A resumable upload additionally emits a `session` event with the current `UploadSession`
+ * whenever the server commits a chunk. Persist the latest session to resume the upload
+ * if it is interrupted.
  *
  * When the document has been uploaded, the `finish` event is emitted with the `Document`
  * reference as its argument.
  */
 export class Upload extends EventEmitter {
   private readonly abortController: AbortController;
+  private currentSession?: UploadSession;
 
-  constructor(client: HttpClient, data: Storable, sdkParams?: DocumentUploadParams) {
+  constructor(
+    client: HttpClient,
+    data: Storable,
+    sdkParams?: DocumentUploadParams,
+    options?: UploadOptions,
+  ) {
     super();
 
     this.abortController = new AbortController();
 
-    const form = new FormData();
+    const metadata = makeUploadMetadata(sdkParams);
+    const encryption = options?.encryption ?? client.encryption;
+    const upload =
+      options?.resumable || options?.session
+        ? this.uploadResumable(client, data, metadata, { ...options, encryption })
+        : this.uploadMultipart(client, data, metadata, { ...options, encryption });
+    upload
+      // eslint-disable-next-line promise/prefer-await-to-then
+      .then((podDocument) => {
+        this.emit('finish', new Document(client, podDocument));
+      })
+      // eslint-disable-next-line promise/prefer-await-to-then
+      .catch((error: any) => {
+        this.emit('error', error);
+      });
+  }
 
-    const appendPart = (name: string, data: Storable, contentType: string, length?: number) => {
+  /** Aborts the upload. Emits an `abort` event and sets the `aborted` flag. */
+  public abort(): void {
+    this.abortController.abort();
+    this.emit('abort');
+  }
+
+  public get aborted(): boolean {
+    return this.abortController.signal.aborted;
+  }
+
+  /** The session of a resumable upload, once it has been created or resumed. */
+  public get session(): UploadSession | undefined {
+    return this.currentSession;
+  }
+
+  /**
+   * @returns a `Promise` that resolves when the upload stream has finished.
+   */
+  public get finished(): Promise<Document> {
+    return new Promise((resolve, reject) => {
+      this.on('finish', resolve);
+      this.on('error', reject);
+    });
+  }
+
+  private async uploadMultipart(
+    client: HttpClient,
+    data: Storable,
+    metadata: UploadMetadata | undefined,
+    options: UploadOptions,
+  ): Promise<PODDocument> {
+    const { digest, encryption, retry, idempotencyKey } = options;
+    if (encryption) {
+      const { dataKey, encryption: documentEncryption } = await sealEnvelope(encryption);
+      metadata = { ...metadata, details: { ...metadata?.details, encryption: documentEncryption } };
+      const encrypted = encryptChunks(
+        dataKey,
+        documentEncryption,
+        readChunks(data, documentEncryption.chunkSize, 0),
+      );
+      // In-memory data stays in memory, so that its digest can be sent with the metadata.
+      data =
+        storableSize(data) === undefined
+          ? await toNodeStream(encrypted)
+          : concatBytes(await collect(encrypted));
+    }
+
+    // The digest of in-memory data is sent with the metadata. Streams are hashed as they are
+    // sent, so their digest can only be attached to the document once it has been uploaded.
+    let streamSha256: Sha256 | undefined;
+    if (digest !== false && storableSize(data) !== undefined) {
+      const sha256 = await createSha256();
+      for await (const chunk of readChunks(data, DEFAULT_CHUNK_SIZE, 0)) sha256.update(chunk);
+      metadata = { ...metadata, details: { ...metadata?.details, sha256: sha256.digest() } };
+    } else if (digest && typeof Blob === 'undefined') {
+      // Streams can only be uploaded from Node.
+      streamSha256 = await createSha256();
+      data = await hashStream(data, streamSha256);
+    }
+
+    const appendPart = (
+      form: FormData,
+      name: string,
+      data: Storable,
+      contentType: string,
+      length?: number,
+    ) => {
       if (typeof Blob === 'undefined') {
         // If Blob isn't present, we're likely in Node and should use the `form-data` API.
+        if (data instanceof Uint8Array && !Buffer.isBuffer(data)) {
+          data = Buffer.from(data.buffer, data.byteOffset, data.byteLength); // `form-data` needs a `Buffer`.
+        }
+
         form.append(name, data, {
           contentType,
           knownLength: length,
@@ -254,56 +512,291 @@ export class Upload extends EventEmitter {
       }
     };
 
-    if (sdkParams) {
-      const { toApp, ...parcelParams } = sdkParams;
-      if (toApp) {
-        parcelParams.details = {
-          ...parcelParams.details,
-          tags: [...(parcelParams?.details?.tags ?? []), `to-app-${toApp}`],
-        };
+    // Sending a form consumes it, so each attempt gets a new one and starts its progress anew.
+    let progress = new ProgressTracker((p) => this.emit('progress', p));
+    let isNodeForm = false;
+    const makeForm = () => {
+      const form = new FormData();
+      if (metadata === undefined) {
+        appendPart(form, 'metadata', '', 'text/plain', 0); // The metadata part is required.
+      } else {
+        const paramsString = JSON.stringify(metadata);
+        appendPart(form, 'metadata', paramsString, 'application/json', paramsString.length);
+      }
+
+      appendPart(form, 'data', data, 'application/octet-stream', (data as any).length);
+
+      progress = new ProgressTracker((p) => this.emit('progress', p));
+      isNodeForm = 'getHeaders' in form;
+      if (isNodeForm) {
+        if (form.hasKnownLength()) progress.total = form.getLengthSync();
+        // The form is piped into the request, so the data it emits has been sent.
+        form.on('data', (chunk: string | Buffer) => {
+          progress.add(typeof chunk === 'string' ? Buffer.byteLength(chunk) : chunk.length);
+        });
+      } else {
+        progress.total = storableSize(data);
       }
 
-      const paramsString = JSON.stringify(parcelParams);
-      appendPart('metadata', paramsString, 'application/json', paramsString.length);
+      return form;
+    };
+
+    const podDocument = await client.upload(makeForm, {
+      signal: this.abortController.signal,
+      timeout: false,
+      // A stream cannot be read again, so an upload of one cannot be retried.
+      retry: storableSize(data) === undefined ? false : retry,
+      idempotencyKey,
+    });
+    if (!isNodeForm && progress.total !== undefined) progress.add(progress.total);
+    if (!streamSha256) return podDocument;
+    return client.update<PODDocument>(
+      endpointForId(podDocument.id as DocumentId),
+      {
+        owner: podDocument.owner,
+        details: { ...podDocument.details, sha256: streamSha256.digest() },
+      },
+      { retry },
+    );
+  }
+
+  private async uploadResumable(
+    client: HttpClient,
+    data: Storable,
+    metadata: UploadMetadata | undefined,
+    options: UploadOptions,
+  ): Promise<PODDocument> {
+    const requestOptions = {
+      prefixUrl: '',
+      signal: this.abortController.signal,
+      retry: options.retry,
+    };
+    const uploadsEndpoint = `${client.storageUrl}/${UPLOADS_EP}`;
+
+    let session: UploadSession;
+    let dataKey: CryptoKey | undefined;
+    if (options.session) {
+      // The server's committed offset is authoritative; the persisted one may be stale.
+      const { id, offset } = await client.get<PODUploadSession>(
+        `${uploadsEndpoint}/${options.session.id}`,
+        {},
+        requestOptions,
+      );
+      session = { ...options.session, id: id as UploadSessionId, offset };
+      if (session.encryption) {
+        if (!options.encryption) {
+          throw new Error('resuming an encrypted upload requires its key-encryption key');
+        }
+
+        dataKey = await openEnvelope(session.encryption, options.encryption.keyEncryptionKey);
+      }
     } else {
-      appendPart('metadata', '', 'text/plain', 0); // The metadata part is required.
+      let encryption: DocumentEncryption | undefined;
+      let sessionMetadata = metadata;
+      if (options.encryption) {
+        ({ dataKey, encryption } = await sealEnvelope(options.encryption));
+        sessionMetadata = { ...metadata, details: { ...metadata?.details, encryption } };
+      }
+
+      let podSession: PODUploadSession;
+      try {
+        podSession = await client.create<PODUploadSession>(
+          uploadsEndpoint,
+          { metadata: sessionMetadata ?? null },
+          { ...requestOptions, idempotencyKey: options.idempotencyKey },
+        );
+      } catch (error: unknown) {
+        // A server that does not support resumable uploads still accepts plain ones.
+        if (error instanceof HTTPError && error.response.status === 404) {
+          return this.uploadMultipart(client, data, metadata, options);
+        }
+
+        throw error;
+      }
+
+      session = {
+        id: podSession.id as UploadSessionId,
+        offset: podSession.offset,
+        chunkSize: options.chunkSize ?? DEFAULT_CHUNK_SIZE,
+        encryption,
+      };
     }
 
-    appendPart('data', data, 'application/octet-stream', (data as any).length);
+    let source: Storable | AsyncIterable<Uint8Array> = data;
+    let total = storableSize(data);
+    if (dataKey && session.encryption) {
+      const { chunkSize } = session.encryption;
+      if (total !== undefined) total = encryptedSize(total, chunkSize);
+      source = encryptChunks(dataKey, session.encryption, readChunks(data, chunkSize, 0));
+    }
 
-    client
-      .upload(form, {
-        headers: 'getHeaders' in form ? /* node */ form.getHeaders() : undefined,
-        signal: this.abortController.signal,
-        timeout: false,
-      })
-      // eslint-disable-next-line promise/prefer-await-to-then
-      .then((podDocument) => {
-        this.emit('finish', new Document(client, podDocument));
-      })
-      // eslint-disable-next-line promise/prefer-await-to-then
-      .catch((error: any) => {
-        this.emit('error', error);
-      });
+    const sha256 = options.digest ?? true ? await createSha256() : undefined;
+    const progress = new ProgressTracker((p) => this.emit('progress', p), total, session.offset);
+    this.updateSession(session);
+    progress.report();
+
+    const chunks = readChunks(source, session.chunkSize, session.offset, (skipped) => {
+      sha256?.update(skipped);
+    });
+    for await (const chunk of chunks) {
+      sha256?.update(chunk);
+      const start = session.offset;
+      const end = start + chunk.length;
+      const { offset } = await client.put<PODUploadSession>(
+        `${uploadsEndpoint}/${session.id}`,
+        chunk,
+        {
+          ...requestOptions,
+          headers: {
+            'content-type': 'application/octet-stream',
+            'content-range': `bytes ${start}-${end - 1}/${total ?? '*'}`,
+          },
+          timeout: false,
+        },
+      );
+      if (offset !== end) {
+        throw new Error(`upload session ${session.id} committed ${offset} bytes, expected ${end}`);
+      }
+
+      session = { ...session, offset };
+      this.updateSession(session);
+      progress.add(chunk.length);
+    }
+
+    return client.create<PODDocument>(
+      `${uploadsEndpoint}/${session.id}/complete`,
+      { size: session.offset, sha256: sha256?.digest() },
+      requestOptions,
+    );
   }
 
-  /** Aborts the upload. Emits an `abort` event and sets the `aborted` flag. */
-  public abort(): void {
-    this.abortController.abort();
-    this.emit('abort');
+  private updateSession(session: UploadSession): void {
+    this.currentSession = session;
+    this.emit('session', session);
   }
+}
 
-  public get aborted(): boolean {
-    return this.abortController.signal.aborted;
+const UPLOADS_EP = 'uploads';
+
+type UploadMetadata = Except<DocumentUploadParams, 'toApp'>;
+
+function makeUploadMetadata(sdkParams?: DocumentUploadParams): UploadMetadata | undefined {
+  if (!sdkParams) return undefined;
+  const { toApp, ...parcelParams } = sdkParams;
+  if (toApp) {
+    parcelParams.details = {
+      ...parcelParams.details,
+      tags: [...(parcelParams?.details?.tags ?? []), `to-app-${toApp}`],
+    };
   }
 
-  /**
-   * @returns a `Promise` that resolves when the upload stream has finished.
-   */
-  public get finished(): Promise<Document> {
-    return new Promise((resolve, reject) => {
-      this.on('finish', resolve);
-      this.on('error', reject);
-    });
+  return parcelParams;
+}
+
+/** Returns the size of the data in bytes, or `undefined` for streams of unknown length. */
+function storableSize(data: Storable): number | undefined {
+  if (typeof data === 'string') return new TextEncoder().encode(data).length;
+  if (data instanceof Uint8Array) return data.length;
+  if (typeof Blob !== 'undefined' && data instanceof Blob) return data.size;
+  return undefined;
+}
+
+/**
+ * Yields `chunkSize`-sized chunks of `data` (the last may be smaller), skipping `offset` bytes.
+ * The skipped bytes are passed to `onSkip`.
+ */
+async function* readChunks(
+  data: Storable | AsyncIterable<Uint8Array>,
+  chunkSize: number,
+  offset: number,
+  onSkip?: (skipped: Uint8Array) => void,
+): AsyncGenerator<Uint8Array> {
+  if (typeof data === 'string') data = new TextEncoder().encode(data);
+
+  if (data instanceof Uint8Array) {
+    onSkip?.(data.subarray(0, offset));
+    for (let i = offset; i < data.length; i += chunkSize) {
+      yield data.subarray(i, i + chunkSize);
+    }
+
+    return;
   }
+
+  if (typeof Blob !== 'undefined' && data instanceof Blob) {
+    if (onSkip) {
+      for (let i = 0; i < offset; i += chunkSize) {
+        onSkip(new Uint8Array(await data.slice(i, Math.min(i + chunkSize, offset)).arrayBuffer()));
+      }
+    }
+
+    for (let i = offset; i < data.size; i += chunkSize) {
+      yield new Uint8Array(await data.slice(i, i + chunkSize).arrayBuffer());
+    }
+
+    return;
+  }
+
+  let toSkip = offset;
+  let buffered: Uint8Array[] = [];
+  let bufferedLength = 0;
+  for await (const streamChunk of data as AsyncIterable<Uint8Array | string>) {
+    let bytes =
+      typeof streamChunk === 'string' ? new TextEncoder().encode(streamChunk) : streamChunk;
+    if (toSkip > 0) {
+      const skipped = Math.min(toSkip, bytes.length);
+      onSkip?.(bytes.subarray(0, skipped));
+      toSkip -= skipped;
+      bytes = bytes.subarray(skipped);
+    }
+
+    buffered.push(bytes);
+    bufferedLength += bytes.length;
+    while (bufferedLength >= chunkSize) {
+      const joined = concatBytes(buffered);
+      yield joined.subarray(0, chunkSize);
+      buffered = [joined.subarray(chunkSize)];
+      bufferedLength -= chunkSize;
+    }
+  }
+
+  if (toSkip > 0) throw new Error('upload data is shorter than the committed upload offset');
+  if (bufferedLength > 0) yield concatBytes(buffered);
+}
+
+/** Wraps a stream so that its data is hashed as it is read. */
+async function hashStream(data: Storable, sha256: Sha256): Promise<Storable> {
+  async function* hashChunks() {
+    for await (const chunk of data as AsyncIterable<Uint8Array | string>) {
+      sha256.update(typeof chunk === 'string' ? new TextEncoder().encode(chunk) : chunk);
+      yield chunk;
+    }
+  }
+
+  return toNodeStream(hashChunks());
+}
+
+async function toNodeStream(chunks: AsyncIterable<Uint8Array | string>): Promise<Storable> {
+  // eslint-disable-next-line node/no-unsupported-features/es-syntax
+  const { Readable } = (await import('stream')).default; // This only happens in node.
+  return Readable.from(chunks, { objectMode: false }) as Storable;
+}
+
+async function collect(chunks: AsyncIterable<Uint8Array>): Promise<Uint8Array[]> {
+  const collected = [];
+  for await (const chunk of chunks) collected.push(chunk);
+  return collected;
+}
+
+function concatBytes(chunks: Uint8Array[]): Uint8Array {
+  if (chunks.length === 1) return chunks[0];
+  let length = 0;
+  for (const chunk of chunks) length += chunk.length;
+  const joined = new Uint8Array(length);
+  let pos = 0;
+  for (const chunk of chunks) {
+    joined.set(chunk, pos);
+    pos += chunk.length;
+  }
+
+  return joined;
 }
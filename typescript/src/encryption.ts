@@ -0,0 +1,249 @@
+/**
+ * A key with which document data keys are wrapped: either an AES key (for `AES-KW`)
+ * or an RSA key (for `RSA-OAEP` with SHA-256). Uploads need the RSA public key and downloads
+ * need the private key; a private JWK serves for both.
+ */
+export type KeyEncryptionKey = CryptoKey | JsonWebKey;
+
+export type EncryptionOptions = {
+  /** The key-encryption key (KEK) that wraps the data key of each document. */
+  keyEncryptionKey: KeyEncryptionKey;
+
+  /** The number of bytes of plaintext in each encrypted chunk. Defaults to 64 KiB. */
+  chunkSize?: number;
+};
+
+/**
+ * Describes how a document's data was encrypted. It is stored in the document's
+ * `details.encryption`, and contains only the wrapped data key, so it is safe to share.
+ */
+export type DocumentEncryption = {
+  /**
+   * The data is split into chunks of `chunkSize` bytes, each of which is encrypted using
+   * AES-256-GCM with a nonce made of `noncePrefix`, the chunk's index, and a flag marking
+   * the last chunk. This prevents chunks from being reordered or truncated undetected.
+   */
+  alg: 'A256GCM-CHUNKED';
+  chunkSize: number;
+
+  /** The base64-encoded random prefix of each chunk's nonce. */
+  noncePrefix: string;
+
+  /** The algorithm with which the data key was wrapped. */
+  keyWrapAlg: 'AES-KW' | 'RSA-OAEP';
+
+  /** The base64-encoded wrapped data key. */
+  wrappedKey: string;
+
+  /** The `kid` of the key-encryption key, if it's a JWK that has one. */
+  kid?: string;
+};
+
+/** Thrown when encrypted data can't be decrypted because it has been altered or truncated. */
+export class DecryptionError extends Error {
+  name = 'DecryptionError';
+
+  public constructor(message: string) {
+    super(message);
+  }
+}
+
+const DEFAULT_CHUNK_SIZE = 64 * 1024;
+const NONCE_PREFIX_LENGTH = 7;
+const TAG_LENGTH = 16;
+
+/** Returns the number of bytes that `plaintextSize` bytes of data occupy once encrypted. */
+export function encryptedSize(plaintextSize: number, chunkSize: number): number {
+  const numChunks = Math.max(Math.ceil(plaintextSize / chunkSize), 1);
+  return plaintextSize + numChunks * TAG_LENGTH;
+}
+
+/** Returns the number of bytes of each encrypted chunk (except, maybe, the last). */
+export function encryptedChunkSize(encryption: DocumentEncryption): number {
+  return encryption.chunkSize + TAG_LENGTH;
+}
+
+/** Generates a data key and wraps it using the key-encryption key. */
+export async function sealEnvelope(
+  options: EncryptionOptions,
+): Promise<{ dataKey: CryptoKey; encryption: DocumentEncryption }> {
+  const subtle = await getSubtle();
+  const dataKey = await subtle.generateKey({ name: 'AES-GCM', length: 256 }, true, [
+    'encrypt',
+    'decrypt',
+  ]);
+  const { key, alg } = await importKeyEncryptionKey(options.keyEncryptionKey, 'wrapKey');
+  const wrappedKey = await subtle.wrapKey('raw', dataKey, key, alg);
+  return {
+    dataKey,
+    encryption: {
+      alg: 'A256GCM-CHUNKED',
+      chunkSize: options.chunkSize ?? DEFAULT_CHUNK_SIZE,
+      noncePrefix: toBase64(
+        (await getWebCrypto()).getRandomValues(new Uint8Array(NONCE_PREFIX_LENGTH)),
+      ),
+      keyWrapAlg: alg.name as DocumentEncryption['keyWrapAlg'],
+      wrappedKey: toBase64(new Uint8Array(wrappedKey)),
+      kid: (options.keyEncryptionKey as JsonWebKey & { kid?: string }).kid,
+    },
+  };
+}
+
+/** Unwraps the data key of an encrypted document. */
+export async function openEnvelope(
+  encryption: DocumentEncryption,
+  keyEncryptionKey: KeyEncryptionKey,
+): Promise<CryptoKey> {
+  if (encryption.alg !== 'A256GCM-CHUNKED') {
+    throw new DecryptionError(`unsupported encryption algorithm: ${String(encryption.alg)}`);
+  }
+
+  const subtle = await getSubtle();
+  const { key, alg } = await importKeyEncryptionKey(keyEncryptionKey, 'unwrapKey');
+  if (alg.name !== encryption.keyWrapAlg) {
+    throw new DecryptionError(
+      `data key was wrapped using ${encryption.keyWrapAlg}, but the key is for ${alg.name}`,
+    );
+  }
+
+  try {
+    return await subtle.unwrapKey(
+      'raw',
+      fromBase64(encryption.wrappedKey),
+      key,
+      alg,
+      { name: 'AES-GCM', length: 256 },
+      false,
+      ['encrypt', 'decrypt'],
+    );
+  } catch {
+    throw new DecryptionError('could not unwrap the data key using the key-encryption key');
+  }
+}
+
+/**
+ * Encrypts data that has been split into chunks of `encryption.chunkSize` bytes
+ * (the last may be smaller).
+ */
+export async function* encryptChunks(
+  dataKey: CryptoKey,
+  encryption: DocumentEncryption,
+  chunks: AsyncIterable<Uint8Array>,
+): AsyncGenerator<Uint8Array> {
+  const subtle = await getSubtle();
+  let index = 0;
+  for await (const { chunk, isLast } of withLookahead(chunks, new Uint8Array())) {
+    const iv = makeNonce(encryption, index++, isLast);
+    yield new Uint8Array(await subtle.encrypt({ name: 'AES-GCM', iv }, dataKey, chunk));
+  }
+}
+
+/**
+ * Decrypts data that has been split into chunks of `encryptedChunkSize(encryption)` bytes
+ * (the last may be smaller).
+ */
+export async function* decryptChunks(
+  dataKey: CryptoKey,
+  encryption: DocumentEncryption,
+  chunks: AsyncIterable<Uint8Array>,
+): AsyncGenerator<Uint8Array> {
+  const subtle = await getSubtle();
+  let index = 0;
+  for await (const { chunk, isLast } of withLookahead(chunks)) {
+    const iv = makeNonce(encryption, index, isLast);
+    try {
+      yield new Uint8Array(await subtle.decrypt({ name: 'AES-GCM', iv }, dataKey, chunk));
+    } catch {
+      throw new DecryptionError(`could not decrypt chunk ${index}: the data has been altered`);
+    }
+
+    index++;
+  }
+
+  if (index === 0) throw new DecryptionError('encrypted data is empty');
+}
+
+/**
+ * Pairs each chunk with whether it's the last one. If there are no chunks,
+ * yields `whenEmpty` as the last chunk, if given.
+ */
+async function* withLookahead(
+  chunks: AsyncIterable<Uint8Array>,
+  whenEmpty?: Uint8Array,
+): AsyncGenerator<{ chunk: Uint8Array; isLast: boolean }> {
+  let previous = whenEmpty;
+  let isEmpty = true;
+  for await (const chunk of chunks) {
+    if (!isEmpty && previous) yield { chunk: previous, isLast: false };
+    previous = chunk;
+    isEmpty = false;
+  }
+
+  if (previous) yield { chunk: previous, isLast: true };
+}
+
+function makeNonce(encryption: DocumentEncryption, index: number, isLast: boolean): Uint8Array {
+  const nonce = new Uint8Array(NONCE_PREFIX_LENGTH + 5);
+  nonce.set(fromBase64(encryption.noncePrefix));
+  new DataView(nonce.buffer).setUint32(NONCE_PREFIX_LENGTH, index);
+  nonce[nonce.length - 1] = isLast ? 1 : 0;
+  return nonce;
+}
+
+async function importKeyEncryptionKey(
+  keyEncryptionKey: KeyEncryptionKey,
+  usage: 'wrapKey' | 'unwrapKey',
+): Promise<{ key: CryptoKey; alg: Algorithm }> {
+  if ('algorithm' in keyEncryptionKey) {
+    return { key: keyEncryptionKey, alg: { name: keyEncryptionKey.algorithm.name } };
+  }
+
+  const subtle = await getSubtle();
+  if (keyEncryptionKey.kty === 'oct') {
+    const alg = { name: 'AES-KW' };
+    return { key: await subtle.importKey('jwk', keyEncryptionKey, alg, false, [usage]), alg };
+  }
+
+  if (keyEncryptionKey.kty === 'RSA') {
+    // Only the public part of a private key is used for wrapping.
+    const { kty, n, e, alg } = keyEncryptionKey;
+    const jwk = usage === 'wrapKey' ? { kty, n, e, alg } : keyEncryptionKey;
+    const key = await subtle.importKey('jwk', jwk, { name: 'RSA-OAEP', hash: 'SHA-256' }, false, [
+      usage,
+    ]);
+    return { key, alg: { name: 'RSA-OAEP' } };
+  }
+
+  throw new TypeError(`unsupported key-encryption key type: ${keyEncryptionKey.kty}`);
+}
+
+async function getWebCrypto(): Promise<Crypto> {
+  if (globalThis.crypto?.subtle) return globalThis.crypto;
+  // This only happens in Node, which has had WebCrypto since version 15.
+  // eslint-disable-next-line node/no-unsupported-features/es-syntax
+  const nodeCrypto: typeof import('crypto') & { webcrypto?: Crypto } = (await import('crypto'))
+    .default;
+  if (!nodeCrypto.webcrypto?.subtle) {
+    throw new Error('encryption requires WebCrypto, which is available in Node 15 and later');
+  }
+
+  return nodeCrypto.webcrypto;
+}
+
+async function getSubtle(): Promise<SubtleCrypto> {
+  return (await getWebCrypto()).subtle;
+}
+
+// Older versions of Node lack `btoa` and `atob`, but have `Buffer`.
+
+function toBase64(bytes: Uint8Array): string {
+  if (typeof Buffer !== 'undefined') return Buffer.from(bytes).toString('base64');
+  let binary = '';
+  for (const byte of bytes) binary += String.fromCharCode(byte);
+  return btoa(binary);
+}
+
+function fromBase64(base64: string): Uint8Array {
+  if (typeof Buffer !== 'undefined') return new Uint8Array(Buffer.from(base64, 'base64'));
+  return Uint8Array.from(atob(base64), (c) => c.charCodeAt(0));
+}
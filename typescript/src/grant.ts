@@ -1,10 +1,22 @@
-import type { Opaque } from 'type-fest';
+import type { Except, Opaque } from 'type-fest';
 
-import type { Condition } from './condition.js';
-import type { HttpClient } from './http.js';
+import type { AccessContext } from './asset.js';
+import type { Condition, ConditionTrace } from './condition.js';
+import {
+  evaluateCondition,
+  InvalidConditionError,
+  normalizeCondition,
+  printCondition,
+  reviveConditionDates,
+  validateCondition,
+} from './condition.js';
+import type { Document, DocumentId } from './document.js';
+import { DocumentImpl } from './document.js';
+import type { HttpClient, WriteOptions } from './http.js';
 import type { IdentityId } from './identity.js';
+import { IdentityImpl } from './identity.js';
 import type { Model, Page, PageParams, PODModel, ResourceId } from './model.js';
-import { makePage } from './model.js';
+import { makePage, mapConcurrently, paginate } from './model.js';
 import type { PermissionId } from './permission.js';
 
 export type GrantId = Opaque<ResourceId, 'GrantId'>;
@@ -30,7 +42,7 @@ export type GrantCreateParams = {
   condition?: Condition | null;
 
   /** The capabilities attached to this grant. The default is `read`. */
-  capabilities?: Capabilities | string;
+  capabilities?: CapabilitySetLike;
 
   /**
    * The grant to extend by delegation. If you are the delegating grant's `grantee` is you,
@@ -38,6 +50,74 @@ export type GrantCreateParams = {
    * the delegating grant.
    */
   delegating?: GrantId;
+
+  /**
+   * The time from which the grant applies. This adds `{ accessTime: { $gte: notBefore } }` to
+   * the grant's condition.
+   */
+  notBefore?: Date;
+
+  /**
+   * The time at which the grant stops applying. This adds `{ accessTime: { $lt: expiresAt } }`
+   * to the grant's condition.
+   */
+  expiresAt?: Date;
+};
+
+export type ExplainAccessParams = {
+  /** The document to be accessed. A `Document` is used as-is; an ID is looked up. */
+  document: Document | DocumentId;
+
+  /**
+   * The context of the access. `accessContext.accessTime` defaults to now, and
+   * `accessContext.accessor` to anybody, i.e., only grants to `everyone` are considered.
+   */
+  accessContext?: AccessContext;
+
+  /** The capabilities needed for the access. The default is `read`. */
+  capabilities?: CapabilitySetLike;
+};
+
+/** Why a grant does not give the access. */
+export type GrantMismatch = 'granter' | 'grantee' | 'capabilities' | 'condition';
+
+export type GrantExplanation = {
+  grant: Grant;
+
+  /** Whether the grant gives the access. */
+  applies: boolean;
+
+  /**
+   * The first check that the grant failed, if it does not apply:
+   * - `granter`: the grant is not from the document's owner;
+   * - `grantee`: the grant is not to the accessor;
+   * - `capabilities`: the grant lacks some of the needed capabilities;
+   * - `condition`: the grant's condition does not select the access.
+   */
+  mismatch?: GrantMismatch;
+
+  /** A human-readable explanation of whether the grant applies. */
+  explanation: string;
+
+  /** The evaluation of the grant's condition, if the grant passed the other checks. */
+  trace?: ConditionTrace;
+
+  /**
+   * The selectors in the grant's condition that made it not select the access. For example,
+   * when `{ $and: [a, b, c] }` is false because `a` and `c` are false, these are `a` and `c`.
+   */
+  failedClauses?: ConditionTrace[];
+};
+
+export type AccessExplanation = {
+  /** Whether the access would be allowed. */
+  allowed: boolean;
+
+  /** Whether the accessor owns the document, which allows the access regardless of grants. */
+  isOwner: boolean;
+
+  /** The grants visible to the caller, and whether each gives the access. */
+  grants: GrantExplanation[];
 };
 
 const GRANTS_EP = 'grants';
@@ -58,8 +138,17 @@ export class Grant implements Model {
   public readonly permission?: PermissionId;
   /** The actions permissible to the grantee on targets selected by the conditions. */
   public readonly capabilities?: Capabilities;
+  /**
+   * The grant's capabilities as a set, which, unlike `capabilities`, keeps capabilities unknown
+   * to this version of the client.
+   */
+  public readonly capabilitySet: CapabilitySet;
   /** The grant that this grant extends by delegation. */
   public readonly delegating?: GrantId;
+  /** The time from which the grant applies, according to the `accessTime` in its condition. */
+  public readonly notBefore?: Date;
+  /** The time at which the grant stops applying, according to the `accessTime` in its condition. */
+  public readonly expiresAt?: Date;
 
   #client: HttpClient;
 
@@ -69,20 +158,190 @@ export class Grant implements Model {
     this.createdAt = new Date(pod.createdAt);
     this.granter = pod.granter as IdentityId;
     this.grantee = (pod.grantee as IdentityId) ?? 'everyone';
-    this.condition = pod.condition;
+    try {
+      this.condition = pod.condition && reviveConditionDates(pod.condition);
+    } catch {
+      // Malformed conditions are kept as-is.
+      this.condition = pod.condition;
+    }
+
     this.permission = pod.permission as PermissionId;
     this.capabilities = pod.capabilities ? parseCaps(pod.capabilities) : undefined;
+    this.capabilitySet = new CapabilitySet(pod.capabilities);
     this.delegating = pod.delegating as GrantId;
+    ({ notBefore: this.notBefore, expiresAt: this.expiresAt } = accessTimeBounds(this.condition));
   }
 
   public async delete(): Promise<void> {
     return this.#client.delete(endpointForId(this.id));
   }
+
+  /**
+   * Follows `delegating` up to the root grant, which does not extend another grant.
+   * @returns the grants from the root grant to this one.
+   */
+  public async getDelegationChain(): Promise<Grant[]> {
+    return GrantImpl.getDelegationChain(this.#client, this);
+  }
+}
+
+/** A grant, and the grants that extend it by delegation. */
+export type DelegationTree = {
+  grant: Grant;
+
+  /** The trees of the grants whose `delegating` is `grant`. */
+  delegated: DelegationTree[];
+};
+
+export type RevokeGrantOptions = Partial<{
+  /** Also revoke the grants that extend the revoked grants by delegation, and so on. */
+  cascade: boolean;
+
+  /** Report what would be revoked, without revoking anything. */
+  dryRun: boolean;
+
+  /** Selects the grants among which to look for delegated grants. By default, all visible grants are used. */
+  filter: ListGrantsFilter;
+}>;
+
+export type RevocationReport = {
+  /** Whether nothing was actually revoked, because `dryRun` was set. */
+  dryRun: boolean;
+
+  /** The grants that were (or would be) revoked, in order. Delegated grants come first. */
+  revoked: Grant[];
+
+  /** The grants that could not be revoked, and why. */
+  failed: Array<{ grant: Grant; error: Error }>;
+};
+
+/**
+ * Thrown when a permission could not be revoked. Its grants, and with `cascade` the grants
+ * delegated from them, may have been partly revoked already, as recorded in `report`.
+ */
+export class RevocationError extends Error {
+  name = 'RevocationError';
+
+  public constructor(public readonly report: RevocationReport, public readonly cause: Error) {
+    super(`failed to revoke permission: ${cause.message}`);
+  }
+}
+
+export type GetDelegatedGrantsOptions = Partial<{
+  /** Selects the grants among which to look for delegated grants. By default, all visible grants are used. */
+  filter: ListGrantsFilter;
+}>;
+
+export type PlanGrantsOptions = Partial<{
+  /**
+   * Selects the existing grants to reconcile. Existing grants that are not desired are
+   * deleted. Defaults to `{ granter: <your identity ID> }`, so that grants given to you by
+   * others are left alone. Grants created by permissions are never deleted.
+   */
+  filter: ListGrantsFilter;
+}>;
+
+export type ApplyGrantPlanOptions = Partial<{
+  /** The maximum number of grants to create or delete at once. Defaults to 8. */
+  concurrency: number;
+}>;
+
+export type GrantPlanResult = {
+  created: Grant[];
+  deleted: Grant[];
+};
+
+const DEFAULT_GRANT_CONCURRENCY = 8;
+
+/**
+ * A `GrantPlan` is the result of calling `parcel.planGrants`. It lists the grants to create and
+ * delete so that the existing grants match the desired ones. Grants are compared by their
+ * grantee, capabilities, delegating grant, and normalized condition (see `normalizeCondition`),
+ * so grants whose conditions were composed differently, but mean the same, are not recreated.
+ *
+ * Print the plan to review it, and then `apply` it.
+ */
+export class GrantPlan {
+  /** The desired grants that do not exist. */
+  public readonly creates: GrantCreateParams[];
+
+  /** The existing grants that are not desired, or are duplicates. */
+  public readonly deletes: Grant[];
+
+  /** The existing grants that are desired. */
+  public readonly unchanged: Grant[];
+
+  #client: HttpClient;
+
+  public constructor(
+    client: HttpClient,
+    plan: Pick<GrantPlan, 'creates' | 'deletes' | 'unchanged'>,
+  ) {
+    this.#client = client;
+    this.creates = plan.creates;
+    this.deletes = plan.deletes;
+    this.unchanged = plan.unchanged;
+  }
+
+  /** Whether the existing grants already match the desired ones. */
+  public get isEmpty(): boolean {
+    return this.creates.length === 0 && this.deletes.length === 0;
+  }
+
+  /**
+   * Creates and then deletes grants according to the plan. Grants are created first, so that
+   * a grant being replaced keeps giving access until its replacement exists.
+   * Stops at the first failure, so applying a plan is not atomic; plan again to see what is
+   * left to do.
+   */
+  public async apply(options?: ApplyGrantPlanOptions): Promise<GrantPlanResult> {
+    const concurrency = options?.concurrency ?? DEFAULT_GRANT_CONCURRENCY;
+    const created = await mapConcurrently(this.creates, concurrency, async (params) =>
+      GrantImpl.create(this.#client, params),
+    );
+    await mapConcurrently(this.deletes, concurrency, async (grant) => grant.delete());
+    return { created, deleted: this.deletes };
+  }
+
+  /**
+   * Describes the plan, with a line per change, e.g.,
+   * ```
+   * + grant to I2 (read) if document.tags contains "csv"
+   * - grant G1 to everyone (read extend) unconditionally
+   * 1 to create, 1 to delete, 3 unchanged
+   * ```
+   */
+  public toString(): string {
+    return [
+      ...this.creates.map((params) => `+ ${describeGrant(params)}`),
+      ...this.deletes.map((grant) => `- ${describeGrant(grant)}`),
+      `${this.creates.length} to create, ${this.deletes.length} to delete, ${this.unchanged.length} unchanged`,
+    ].join('\n');
+  }
 }
 
 export namespace GrantImpl {
-  export async function create(client: HttpClient, params: GrantCreateParams): Promise<Grant> {
-    const podGrant = await client.create<PODGrant>(GRANTS_EP, params);
+  export async function create(
+    client: HttpClient,
+    params: GrantCreateParams,
+    options?: WriteOptions,
+  ): Promise<Grant> {
+    const createParams = withTimeBounds(params);
+    if (createParams.condition) {
+      const issues = validateCondition(createParams.condition);
+      if (issues.length > 0) throw new InvalidConditionError(issues);
+    }
+
+    const { capabilities } = createParams;
+    const podGrant = await client.create<PODGrant>(
+      GRANTS_EP,
+      {
+        ...createParams,
+        capabilities:
+          capabilities === undefined ? undefined : new CapabilitySet(capabilities).toString(),
+      },
+      options,
+    );
     return new Grant(client, podGrant);
   }
 
@@ -102,6 +361,329 @@ export namespace GrantImpl {
   export async function delete_(client: HttpClient, id: GrantId): Promise<void> {
     return client.delete(endpointForId(id));
   }
+
+  export async function listExpiring(
+    client: HttpClient,
+    within: number,
+    filter?: ListGrantsFilter,
+  ): Promise<Grant[]> {
+    const now = Date.now();
+    const expiring: Grant[] = [];
+    const pageParams: ListGrantsFilter & PageParams = filter ?? {};
+    for await (const grant of paginate(async (p) => list(client, p), pageParams)) {
+      const expiresAt = grant.expiresAt?.getTime();
+      if (expiresAt !== undefined && expiresAt > now && expiresAt <= now + within) {
+        expiring.push(grant);
+      }
+    }
+
+    return expiring.sort((a, b) => a.expiresAt!.getTime() - b.expiresAt!.getTime());
+  }
+
+  export async function getDelegationChain(client: HttpClient, grant: Grant): Promise<Grant[]> {
+    const chain = [grant];
+    while (chain[0].delegating) {
+      const { delegating } = chain[0];
+      if (chain.some(({ id }) => id === delegating)) {
+        throw new Error(`grant ${grant.id} has a delegation cycle at grant ${delegating}`);
+      }
+
+      chain.unshift(await get(client, delegating));
+    }
+
+    return chain;
+  }
+
+  export async function getDelegatedGrants(
+    client: HttpClient,
+    id: GrantId,
+    options?: GetDelegatedGrantsOptions,
+  ): Promise<DelegationTree> {
+    const root = await get(client, id);
+    const [tree] = await getDelegationTrees(client, [root], options?.filter);
+    return tree;
+  }
+
+  export async function revoke(
+    client: HttpClient,
+    id: GrantId,
+    options?: RevokeGrantOptions,
+  ): Promise<RevocationReport> {
+    const grant = await get(client, id);
+    return revokeGrants(client, [grant], async ({ id }) => delete_(client, id), options);
+  }
+
+  /**
+   * Revokes `grants` using `revokeGrant` and, if `options.cascade` is set, deletes their
+   * delegated grants first, leaf-first. Revocation continues past failures, so that as much
+   * access as possible is revoked.
+   */
+  export async function revokeGrants(
+    client: HttpClient,
+    grants: Grant[],
+    revokeGrant: (grant: Grant) => Promise<void>,
+    options?: RevokeGrantOptions,
+  ): Promise<RevocationReport> {
+    const report: RevocationReport = { dryRun: options?.dryRun ?? false, revoked: [], failed: [] };
+    const trees = options?.cascade
+      ? await getDelegationTrees(client, grants, options.filter)
+      : grants.map((grant) => ({ grant, delegated: [] }));
+    const revokeTree = async (
+      { grant, delegated }: DelegationTree,
+      revoke: (grant: Grant) => Promise<void>,
+    ) => {
+      for (const tree of delegated) await revokeTree(tree, async ({ id }) => delete_(client, id));
+      try {
+        if (!report.dryRun) await revoke(grant);
+        report.revoked.push(grant);
+      } catch (error: any) {
+        report.failed.push({ grant, error });
+      }
+    };
+
+    for (const tree of trees) await revokeTree(tree, revokeGrant);
+    return report;
+  }
+
+  export async function plan(
+    client: HttpClient,
+    desired: GrantCreateParams[],
+    options?: PlanGrantsOptions,
+  ): Promise<GrantPlan> {
+    // Existing grants have their time bounds in their conditions, so desired ones must, too.
+    const bounded = desired.map((params) => withTimeBounds(params));
+    for (const { condition } of bounded) {
+      const issues = condition ? validateCondition(condition) : [];
+      if (issues.length > 0) throw new InvalidConditionError(issues);
+    }
+
+    const desiredByKey = new Map(bounded.map((params) => [grantKey(params), params]));
+    const unchanged = new Map<string, Grant>();
+    const deletes: Grant[] = [];
+    const filter: ListGrantsFilter & PageParams = options?.filter ?? {
+      granter: (await IdentityImpl.current(client)).id,
+    };
+    for await (const grant of paginate(async (p) => list(client, p), filter)) {
+      if (grant.permission) continue;
+      const key = grantKey(grant);
+      if (desiredByKey.has(key) && !unchanged.has(key)) unchanged.set(key, grant);
+      else deletes.push(grant);
+    }
+
+    const creates = [...desiredByKey]
+      .filter(([key]) => !unchanged.has(key))
+      .map(([, params]) => params);
+    return new GrantPlan(client, { creates, deletes, unchanged: [...unchanged.values()] });
+  }
+
+  export async function explainAccess(
+    client: HttpClient,
+    params: ExplainAccessParams,
+  ): Promise<AccessExplanation> {
+    const document =
+      typeof params.document === 'string'
+        ? await DocumentImpl.get(client, params.document)
+        : params.document;
+    const accessContext = { accessTime: new Date(), ...params.accessContext };
+    const { accessor } = accessContext;
+    const requiredCaps = new CapabilitySet(params.capabilities ?? 'read');
+
+    const grants: GrantExplanation[] = [];
+    for await (const grant of paginate(async (p) => list(client, p), {})) {
+      grants.push(explainGrant(grant, document, accessContext, requiredCaps));
+    }
+
+    const isOwner = accessor !== undefined && accessor === document.owner;
+    return { allowed: isOwner || grants.some(({ applies }) => applies), isOwner, grants };
+  }
+}
+
+function explainGrant(
+  grant: Grant,
+  document: Document,
+  accessContext: AccessContext,
+  requiredCaps: CapabilitySet,
+): GrantExplanation {
+  const mismatch = (kind: GrantMismatch, explanation: string): GrantExplanation => ({
+    grant,
+    applies: false,
+    mismatch: kind,
+    explanation: `grant ${grant.id} does not apply because ${explanation}`,
+  });
+
+  if (grant.granter !== document.owner) {
+    return mismatch('granter', `its granter is not the document's owner ${document.owner}`);
+  }
+
+  if (grant.grantee !== 'everyone' && grant.grantee !== accessContext.accessor) {
+    const accessor = accessContext.accessor ?? 'anybody';
+    return mismatch('grantee', `it is to ${grant.grantee}, not ${accessor}`);
+  }
+
+  const missing = requiredCaps.difference(grant.capabilitySet);
+  if (!missing.isEmpty) {
+    return mismatch('capabilities', `it does not have the \`${missing}\` capability`);
+  }
+
+  if (!grant.condition) {
+    return { grant, applies: true, explanation: `grant ${grant.id} applies unconditionally` };
+  }
+
+  let trace: ConditionTrace;
+  try {
+    ({ trace } = evaluateCondition(grant.condition, { ...accessContext, document }));
+  } catch (error: any) {
+    return mismatch('condition', `its condition could not be evaluated: ${error.message}`);
+  }
+
+  if (trace.result) {
+    return { grant, applies: true, trace, explanation: `grant ${grant.id} applies` };
+  }
+
+  const failedClauses = blame(trace);
+  const reasons = failedClauses.length > 0 ? failedClauses : [trace];
+  return {
+    ...mismatch(
+      'condition',
+      `its condition is false: ${reasons.map(({ explanation }) => explanation).join('; ')}`,
+    ),
+    trace,
+    failedClauses,
+  };
+}
+
+/** Finds the delegated grants of each of `roots` among the grants selected by `filter`. */
+async function getDelegationTrees(
+  client: HttpClient,
+  roots: Grant[],
+  filter: ListGrantsFilter & PageParams = {},
+): Promise<DelegationTree[]> {
+  const delegatedGrants = new Map<GrantId, Grant[]>();
+  for await (const grant of paginate(async (p) => GrantImpl.list(client, p), filter)) {
+    if (!grant.delegating) continue;
+    const siblings = delegatedGrants.get(grant.delegating) ?? [];
+    if (siblings.length === 0) delegatedGrants.set(grant.delegating, siblings);
+    siblings.push(grant);
+  }
+
+  const visited = new Set<GrantId>();
+  const buildTree = (grant: Grant): DelegationTree => {
+    visited.add(grant.id);
+    const delegated = (delegatedGrants.get(grant.id) ?? []).filter(({ id }) => !visited.has(id));
+    return { grant, delegated: delegated.map((g) => buildTree(g)) };
+  };
+
+  return roots.map((root) => buildTree(root));
+}
+
+/**
+ * Moves the `notBefore` and `expiresAt` of grant params into their condition, as `accessTime`
+ * clauses `$and`ed with it.
+ */
+function withTimeBounds(
+  params: GrantCreateParams,
+): Except<GrantCreateParams, 'notBefore' | 'expiresAt'> {
+  const { notBefore, expiresAt, ...createParams } = params;
+  if (notBefore && expiresAt && notBefore >= expiresAt) {
+    throw new Error('the grant must expire after it starts applying');
+  }
+
+  const timeBounds: Condition[] = [];
+  if (notBefore) timeBounds.push({ accessTime: { $gte: notBefore } });
+  if (expiresAt) timeBounds.push({ accessTime: { $lt: expiresAt } });
+  if (timeBounds.length > 0) {
+    const { condition } = params;
+    const clauses = condition ? ('$and' in condition ? condition.$and : [condition]) : [];
+    const conditions = [...clauses, ...timeBounds];
+    createParams.condition = conditions.length === 1 ? conditions[0] : { $and: conditions };
+  }
+
+  return createParams;
+}
+
+/**
+ * Finds the times between which a condition can select an access, according to its top-level
+ * `accessTime` clauses, i.e., those that are not nested in any logical operator except `$and`.
+ */
+function accessTimeBounds(condition?: Condition): { notBefore?: Date; expiresAt?: Date } {
+  const bounds: { notBefore?: Date; expiresAt?: Date } = {};
+  const visit = (condition: Condition | null) => {
+    // Malformed clauses set no bounds.
+    if (typeof condition !== 'object' || condition === null) return;
+    if ('$and' in condition && Array.isArray(condition.$and)) {
+      for (const clause of condition.$and) visit(clause);
+      return;
+    }
+
+    if (!('accessTime' in condition)) return;
+    const { accessTime } = condition;
+    const entries =
+      typeof accessTime === 'object' && accessTime !== null ? Object.entries(accessTime) : [];
+    if (entries.length !== 1) return;
+    const [[op, value]] = entries;
+    const time = new Date(value as Date | string);
+    if (Number.isNaN(time.getTime())) return;
+    if ((op === '$gt' || op === '$gte') && !(bounds.notBefore && bounds.notBefore > time)) {
+      bounds.notBefore = time;
+    } else if ((op === '$lt' || op === '$lte') && !(bounds.expiresAt && bounds.expiresAt < time)) {
+      bounds.expiresAt = time;
+    }
+  };
+
+  if (condition) visit(condition);
+  return bounds;
+}
+
+type GrantContent = Pick<GrantCreateParams, 'grantee' | 'condition' | 'delegating'> & {
+  capabilities?: CapabilitySetLike;
+};
+
+/** @returns a key that is equal for grants that give the same access. */
+function grantKey(grant: GrantContent): string {
+  let { condition } = grant;
+  try {
+    condition = condition ? normalizeCondition(condition) : null;
+  } catch {
+    // Malformed conditions are compared as-is.
+  }
+
+  return JSON.stringify([grant.grantee, condition, capsOf(grant), grant.delegating ?? null]);
+}
+
+function capsOf(grant: GrantContent): CapabilitySet {
+  // Existing grants without capabilities have none; only desired grants default to `read`.
+  if (grant instanceof Grant) return grant.capabilitySet;
+  return new CapabilitySet(grant.capabilities ?? 'read');
+}
+
+function describeGrant(grant: GrantContent & { id?: GrantId }): string {
+  const id = grant.id ? ` ${grant.id}` : '';
+  const delegating = grant.delegating ? ` delegating ${grant.delegating}` : '';
+  let condition = 'unconditionally';
+  if (grant.condition) {
+    try {
+      condition = `if ${printCondition(grant.condition, {
+        maxLineLength: Number.POSITIVE_INFINITY,
+      })}`;
+    } catch {
+      condition = `if ${JSON.stringify(grant.condition)}`;
+    }
+  }
+
+  return `grant${id} to ${grant.grantee} (${capsOf(grant)})${delegating} ${condition}`;
+}
+
+/** @returns the selectors of a traced condition that determined its result. */
+function blame(trace: ConditionTrace): ConditionTrace[] {
+  if (!trace.children) return [trace];
+  const key = Object.keys(trace.condition)[0];
+  // `$and` and `$or` are decided by the children with the same result, e.g., an `$and` is
+  // false because of its false children. `$nor` and `$not` are decided by those with the
+  // opposite result.
+  const decidingResult = key === '$and' || key === '$or' ? trace.result : !trace.result;
+  return trace.children
+    .filter(({ result }) => result === decidingResult)
+    .flatMap((child) => blame(child));
 }
 
 export type ListGrantsFilter = {
@@ -132,29 +714,18 @@ export enum Capabilities {
 }
 /* eslint-enable @typescript-eslint/prefer-literal-enum-member */
 
+/**
+ * Parses space-separated capabilities into bit flags. Capabilities unknown to this version of
+ * the client are ignored. Use `CapabilitySet` to keep them.
+ */
 export function parseCaps(strCaps?: string): Capabilities {
   if (strCaps === undefined) return Capabilities.None;
-  let caps = Capabilities.None;
-  for (const strCap of strCaps.trim().split(/\s+/)) {
-    switch (strCap) {
-      case 'read':
-        caps |= Capabilities.Read;
-        break;
-      case 'extend':
-        caps |= Capabilities.Extend;
-        break;
-      case '':
-        break;
-      default:
-        throw new Error(`unknown capability "${strCap}"`);
-    }
-  }
-
-  return caps;
+  return new CapabilitySet(strCaps).toCapabilities();
 }
 
-export function stringifyCaps(caps?: Capabilities): string {
+export function stringifyCaps(caps?: Capabilities | CapabilitySet): string {
   if (caps === undefined) return '';
+  if (caps instanceof CapabilitySet) return caps.toString();
   const capsStrs = [];
   for (const [name, bit] of Object.entries(Capabilities)) {
     if (typeof bit !== 'number') continue;
@@ -165,3 +736,105 @@ export function stringifyCaps(caps?: Capabilities): string {
 
   return capsStrs.join(' ');
 }
+
+/** A capability known to this version of the client. */
+export type Capability = 'read' | 'extend';
+
+/** Capabilities as a `CapabilitySet`, bit flags, space-separated names, or a list of names. */
+export type CapabilitySetLike = CapabilitySet | Capabilities | string | Iterable<string>;
+
+const CAPABILITY_FLAGS = new Map<string, Capabilities>([
+  ['read', Capabilities.Read],
+  ['extend', Capabilities.Extend],
+]);
+
+/**
+ * An immutable set of capabilities, e.g., those of a grant.
+ *
+ * Capabilities added to Parcel after this version of the client are kept by name, so a
+ * `CapabilitySet` read from a grant can be written back unchanged. They cannot be represented
+ * as `Capabilities` bit flags, though, and are dropped by `toCapabilities`.
+ *
+ * A `CapabilitySet` is serialized as JSON in the space-separated form used by the Parcel API,
+ * which can be passed back to the constructor:
+ * ```
+ * const caps = new CapabilitySet(JSON.parse(JSON.stringify(grant.capabilitySet)));
+ * ```
+ */
+export class CapabilitySet implements Iterable<string> {
+  private readonly caps: ReadonlySet<string>;
+
+  public constructor(caps: CapabilitySetLike = []) {
+    if (caps instanceof CapabilitySet) {
+      this.caps = caps.caps;
+    } else if (typeof caps === 'number') {
+      const names = [...CAPABILITY_FLAGS.keys()];
+      this.caps = new Set(names.filter((name) => (caps & CAPABILITY_FLAGS.get(name)!) !== 0));
+    } else if (typeof caps === 'string') {
+      this.caps = new Set(caps.split(/\s+/).filter((name) => name !== ''));
+    } else {
+      this.caps = new Set(caps);
+    }
+  }
+
+  public get size(): number {
+    return this.caps.size;
+  }
+
+  public get isEmpty(): boolean {
+    return this.caps.size === 0;
+  }
+
+  /** @returns whether the set has the capability, or all of the capabilities. */
+  public has(caps: Capability | CapabilitySetLike): boolean {
+    return new CapabilitySet(caps).isSubsetOf(this);
+  }
+
+  public union(other: CapabilitySetLike): CapabilitySet {
+    return new CapabilitySet([...this.caps, ...new CapabilitySet(other)]);
+  }
+
+  public intersect(other: CapabilitySetLike): CapabilitySet {
+    const otherCaps = new CapabilitySet(other).caps;
+    return new CapabilitySet([...this.caps].filter((cap) => otherCaps.has(cap)));
+  }
+
+  /** @returns the capabilities in this set that are not in the other. */
+  public difference(other: CapabilitySetLike): CapabilitySet {
+    const otherCaps = new CapabilitySet(other).caps;
+    return new CapabilitySet([...this.caps].filter((cap) => !otherCaps.has(cap)));
+  }
+
+  public isSubsetOf(other: CapabilitySetLike): boolean {
+    const otherCaps = new CapabilitySet(other).caps;
+    return [...this.caps].every((cap) => otherCaps.has(cap));
+  }
+
+  public equals(other: CapabilitySetLike): boolean {
+    const otherSet = new CapabilitySet(other);
+    return this.size === otherSet.size && this.isSubsetOf(otherSet);
+  }
+
+  /** @returns the known capabilities as bit flags. */
+  public toCapabilities(): Capabilities {
+    let flags = Capabilities.None;
+    for (const cap of this.caps) flags |= CAPABILITY_FLAGS.get(cap) ?? Capabilities.None;
+    return flags;
+  }
+
+  /** Iterates over the capabilities: the known ones first, then the others by name. */
+  public [Symbol.iterator](): Iterator<string> {
+    const known = [...CAPABILITY_FLAGS.keys()].filter((cap) => this.caps.has(cap));
+    const unknown = [...this.caps].filter((cap) => !CAPABILITY_FLAGS.has(cap)).sort();
+    return [...known, ...unknown][Symbol.iterator]();
+  }
+
+  /** @returns the space-separated capabilities, e.g., `read extend`. */
+  public toString(): string {
+    return [...this].join(' ');
+  }
+
+  public toJSON(): string {
+    return this.toString();
+  }
+}
@@ -2,15 +2,22 @@ import type { WriteStream } from 'fs';
 import type { Readable, Writable } from 'stream';
 
 import AbortController from 'abort-controller';
+import EventEmitter from 'eventemitter3';
 import FormData from 'form-data';
 import type { BeforeRequestHook, NormalizedOptions, Options as KyOptions } from 'ky';
 import ky, { HTTPError } from 'ky';
 import { paramCase } from 'param-case';
+import type { Except } from 'type-fest';
 
 import type { DocumentId, PODDocument } from './document';
 import type { JsonSerializable, Page } from './model.js';
+import type { EncryptionOptions, KeyEncryptionKey } from './encryption.js';
+import type { DocumentIntegrity } from './integrity.js';
+import { IntegrityVerifier } from './integrity.js';
 import type { TokenProvider } from './token.js';
 import { pipeToPolyfill } from './polyfill.js';
+import type { RetryConfig } from './retry.js';
+import { isTransientError, mergeRetryConfigs, withRetries } from './retry.js';
 
 const DEFAULT_API_URL =
   globalThis?.process?.env?.PARCEL_API_URL ?? 'https://api.oasislabs.com/parcel/v1';
@@ -21,8 +28,35 @@ export type Config = Partial<{
   apiUrl: string;
   storageUrl: string;
   httpClientConfig: KyOptions;
+
+  /**
+   * How transient failures (e.g., gateway timeouts or rate limiting) are retried.
+   * Set to `false` to disable retries. Individual requests may override this config.
+   */
+  retry: RetryConfig | false;
+
+  /**
+   * Encrypts uploaded documents before their data leaves the client, and decrypts downloaded
+   * ones. Individual uploads and downloads may override this config.
+   */
+  encryption: EncryptionOptions;
 }>;
 
+/** Options for a single request. */
+export type RequestOptions = Except<KyOptions, 'retry'> & {
+  /** Overrides the client's retry config for this request only. */
+  retry?: RetryConfig | false;
+
+  /**
+   * A unique key that lets the server deduplicate repeated requests.
+   * Setting this makes a non-idempotent request (i.e. `POST`) eligible for retries.
+   */
+  idempotencyKey?: string;
+};
+
+/** The request options accepted by methods that create resources. */
+export type WriteOptions = Pick<RequestOptions, 'retry' | 'idempotencyKey'>;
+
 const DEFAULT_RESPONSE_CODES = new Map([
   ['POST', 200],
   ['PUT', 200],
@@ -33,12 +67,16 @@ const DEFAULT_RESPONSE_CODES = new Map([
 export class HttpClient {
   public readonly apiUrl: string;
   public readonly storageUrl: string;
+  public readonly encryption?: EncryptionOptions;
 
   private readonly apiKy: typeof ky;
+  private readonly retryConfig?: RetryConfig | false;
 
   public constructor(private readonly tokenProvider: TokenProvider, config?: Config) {
     this.apiUrl = config?.apiUrl?.replace(/\/$/, '') ?? DEFAULT_API_URL;
     this.storageUrl = config?.storageUrl?.replace(/\/$/, '') ?? DEFAULT_STORAGE_URL;
+    this.retryConfig = config?.retry;
+    this.encryption = config?.encryption;
 
     this.apiKy = ky.create({
       ...config?.httpClientConfig,
@@ -47,6 +85,9 @@ export class HttpClient {
       // request should override this.
       timeout: 30_000,
 
+      // Retries are handled by `withRetries`, which knows about idempotency and jitter.
+      retry: 0,
+
       prefixUrl: this.apiUrl,
       headers: {
         'x-requested-with': '@oasislabs/parcel',
@@ -104,29 +145,54 @@ export class HttpClient {
 
   public async get<T>(
     endpoint: string,
-    params: Record<string, string | number | Date | boolean | undefined> = {},
-    requestOptions?: KyOptions,
+    params: QueryParams = {},
+    requestOptions?: RequestOptions,
   ): Promise<T> {
-    let hasParams = false;
-    const kebabCaseParams: Record<string, string | number | boolean> = {};
-    for (const [k, v] of Object.entries(params)) {
-      if (v !== undefined) {
-        hasParams = true;
-        kebabCaseParams[paramCase(k)] = v instanceof Date ? v.getTime() : v;
-      }
-    }
-
-    const response = await this.apiKy.get(endpoint, {
-      searchParams: hasParams ? kebabCaseParams : undefined,
-      ...requestOptions,
+    return this.withRetries('GET', requestOptions, async (opts) => {
+      const response = await this.apiKy.get(endpoint, {
+        searchParams: toSearchParams(params),
+        ...opts,
+      });
+      return response.json();
     });
-    return response.json();
   }
 
-  public async upload(data: FormData, requestOptions?: KyOptions): Promise<PODDocument> {
-    return this.create(this.storageUrl, data, {
-      prefixUrl: '',
-      ...requestOptions,
+  /**
+   * Streams the body of a GET response from the API. Unlike document downloads, the response
+   * can't be resumed, so the request is not retried.
+   */
+  public stream(endpoint: string, params: QueryParams, context: string): Download {
+    const searchParams = Object.entries(toSearchParams(params) ?? {});
+    const query =
+      searchParams.length > 0
+        ? `?${new URLSearchParams(searchParams.map(([k, v]) => [k, String(v)])).toString()}`
+        : '';
+    return new Download(
+      this.apiKy,
+      `${this.apiUrl}/${endpoint}${query}`,
+      false,
+      {},
+      undefined,
+      context,
+    );
+  }
+
+  /**
+   * Uploads a multipart form to the storage URL. Sending a form consumes it, so `makeForm` is
+   * called to make a new one for each attempt.
+   */
+  public async upload(
+    makeForm: () => FormData,
+    requestOptions?: RequestOptions,
+  ): Promise<PODDocument> {
+    return this.withRetries('POST', requestOptions, async (kyOptions) => {
+      const form = makeForm();
+      return this.create<PODDocument>(this.storageUrl, form, {
+        prefixUrl: '',
+        ...kyOptions,
+        headers: 'getHeaders' in form ? /* node */ form.getHeaders() : kyOptions.headers,
+        retry: false, // Retried here, with a new form.
+      });
     });
   }
 
@@ -134,7 +200,7 @@ export class HttpClient {
   public async create<T>(
     endpoint: string,
     data: Record<string, JsonSerializable> | FormData | undefined,
-    requestOptions?: KyOptions,
+    requestOptions?: RequestOptions,
   ): Promise<T> {
     return this.post(endpoint, data, {
       ...requestOptions,
@@ -148,7 +214,7 @@ export class HttpClient {
   public async search<T>(
     baseEndpoint: string, // Without the `/search` suffix.
     params: Record<string, JsonSerializable> | undefined,
-    requestOptions?: KyOptions,
+    requestOptions?: RequestOptions,
   ): Promise<Page<T>> {
     return this.post<Page<T>>(`${baseEndpoint}/search`, params, requestOptions);
   }
@@ -156,7 +222,7 @@ export class HttpClient {
   public async post<T>(
     endpoint: string,
     data: Record<string, JsonSerializable> | FormData | undefined,
-    requestOptions?: KyOptions,
+    requestOptions?: RequestOptions,
   ): Promise<T> {
     const opts = requestOptions ?? {};
     if (data !== undefined) {
@@ -170,23 +236,78 @@ export class HttpClient {
       }
     }
 
-    return (await this.apiKy.post(endpoint, opts)).json();
+    return this.withRetries('POST', opts, async (kyOptions) =>
+      (await this.apiKy.post(endpoint, kyOptions)).json(),
+    );
+  }
+
+  public async update<T>(
+    endpoint: string,
+    params: Record<string, JsonSerializable>,
+    requestOptions?: RequestOptions,
+  ): Promise<T> {
+    return this.put(endpoint, params, requestOptions);
   }
 
-  public async update<T>(endpoint: string, params: Record<string, JsonSerializable>): Promise<T> {
-    return this.put(endpoint, params);
+  /** PUTs JSON, or raw bytes if `data` is a `Uint8Array`. */
+  public async put<T>(
+    endpoint: string,
+    data: Record<string, JsonSerializable> | Uint8Array,
+    requestOptions?: RequestOptions,
+  ): Promise<T> {
+    const body = data instanceof Uint8Array ? { body: data } : { json: data };
+    return this.withRetries('PUT', requestOptions, async (opts) =>
+      (await this.apiKy.put(endpoint, { ...opts, ...body })).json(),
+    );
   }
 
-  public async put<T>(endpoint: string, params: Record<string, JsonSerializable>): Promise<T> {
-    return (await this.apiKy.put(endpoint, { json: params })).json();
+  public async delete(endpoint: string, requestOptions?: RequestOptions): Promise<void> {
+    await this.withRetries('DELETE', requestOptions, async (opts) =>
+      this.apiKy.delete(endpoint, opts),
+    );
   }
 
-  public async delete(endpoint: string): Promise<void> {
-    await this.apiKy.delete(endpoint);
+  public download(
+    documentId: DocumentId,
+    options?: DownloadOptions,
+    transform?: DownloadTransform,
+  ): Download {
+    return new Download(
+      this.apiKy,
+      `${this.storageUrl}/${documentId}/download`,
+      mergeRetryConfigs(this.retryConfig),
+      options,
+      transform,
+    );
   }
 
-  public download(documentId: DocumentId): Download {
-    return new Download(this.apiKy, `${this.storageUrl}/${documentId}/download`);
+  /**
+   * Makes a request, retrying it according to the client's retry config as overridden
+   * by `requestOptions.retry`.
+   */
+  private async withRetries<T>(
+    method: string,
+    requestOptions: RequestOptions | undefined,
+    makeRequest: (kyOptions: KyOptions) => Promise<T>,
+  ): Promise<T> {
+    const { retry, idempotencyKey, ...kyOptions } = requestOptions ?? {};
+    if (idempotencyKey) {
+      kyOptions.hooks = {
+        ...kyOptions.hooks,
+        beforeRequest: [
+          ...(kyOptions.hooks?.beforeRequest ?? []),
+          (req) => {
+            req.headers.set('idempotency-key', idempotencyKey);
+          },
+        ],
+      };
+    }
+
+    return withRetries(
+      mergeRetryConfigs(this.retryConfig, retry),
+      { method, idempotencyKey, signal: kyOptions.signal },
+      async () => makeRequest(kyOptions),
+    );
   }
 }
 
@@ -247,6 +368,24 @@ export function appendAsLastBeforeRequest(hookToSchedule: BeforeRequestHook): Be
   };
 }
 
+type QueryParams = Record<string, string | number | Date | boolean | undefined>;
+
+/** Converts the keys of defined params to kebab-case and `Date` values to epoch milliseconds. */
+function toSearchParams(
+  params: QueryParams,
+): Record<string, string | number | boolean> | undefined {
+  let hasParams = false;
+  const kebabCaseParams: Record<string, string | number | boolean> = {};
+  for (const [k, v] of Object.entries(params)) {
+    if (v !== undefined) {
+      hasParams = true;
+      kebabCaseParams[paramCase(k)] = v instanceof Date ? v.getTime() : v;
+    }
+  }
+
+  return hasParams ? kebabCaseParams : undefined;
+}
+
 /** A beforeRequest hook that attaches context to the Request, for displaying in errors. */
 function attachContext(context: string): BeforeRequestHook {
   return (req) => {
@@ -261,6 +400,83 @@ export function addAllowedStatusCode(status: number): BeforeRequestHook {
   };
 }
 
+export type TransferProgress = {
+  /** The number of bytes transferred so far. */
+  loaded: number;
+
+  /** The total number of bytes to be transferred, if known. */
+  total?: number;
+
+  /** The average transfer rate, in bytes per second. */
+  rate: number;
+};
+
+/** Counts transferred bytes and reports them as `TransferProgress`. */
+export class ProgressTracker {
+  private readonly startTime = Date.now();
+  private readonly initiallyLoaded: number;
+
+  public constructor(
+    private readonly onProgress: (progress: TransferProgress) => void,
+    public total?: number,
+    /** Bytes transferred before tracking began (e.g., by an earlier, resumed transfer). */
+    private loaded = 0,
+  ) {
+    this.initiallyLoaded = loaded;
+  }
+
+  public add(numBytes: number): void {
+    this.loaded += numBytes;
+    this.report();
+  }
+
+  public report(): void {
+    const elapsedSeconds = (Date.now() - this.startTime) / 1000;
+    this.onProgress({
+      loaded: this.loaded,
+      total: this.total,
+      rate: elapsedSeconds > 0 ? (this.loaded - this.initiallyLoaded) / elapsedSeconds : 0,
+    });
+  }
+}
+
+/** A range of bytes. Like an HTTP `Range`, both `start` and `end` are inclusive. */
+export type ByteRange = {
+  start: number;
+
+  /** The last byte of the range. Defaults to the last byte of the document. */
+  end?: number;
+};
+
+export type DownloadOptions = Partial<{
+  /** Downloads only the requested part of the document. */
+  range: ByteRange;
+
+  /**
+   * The size and digest against which to verify the downloaded data. `document.download()`
+   * uses the document's own. Ignored for ranged downloads.
+   */
+  integrity: DocumentIntegrity | false;
+
+  /**
+   * The key with which to decrypt an encrypted document.
+   * Defaults to the client's `encryption.keyEncryptionKey`.
+   */
+  keyEncryptionKey: KeyEncryptionKey;
+}>;
+
+/** Transforms the data of a `Download` (e.g., decrypts it) as it is read. */
+export type DownloadTransform = (data: AsyncIterable<Uint8Array>) => AsyncIterable<Uint8Array>;
+
+/** Thrown when the server does not honor the byte range requested by a `Download`. */
+export class DownloadRangeError extends Error {
+  name = 'DownloadRangeError';
+
+  public constructor(message: string) {
+    super(message);
+  }
+}
+
 /**
  * A `Download` is the result of calling `parcel.downloadDocument` or `document.download()`.
  *
@@ -268,32 +484,36 @@ export function addAllowedStatusCode(status: number): BeforeRequestHook {
  * or by calling `await download.pipeTo(sink)`.
  *
  * The download may be aborted by calling `download.destroy()`, as with any `Readable`.
+ *
+ * If the connection fails partway through, the download is resumed from the last received
+ * byte using a `Range` request, as allowed by the client's retry config.
+ *
+ * While data is being read, emits `progress` events, each with a `TransferProgress`
+ * as its argument.
+ *
+ * If `options.integrity` is given, the data is verified as it streams through. Since a digest
+ * can only be checked once all data has been read, a mismatch surfaces as an `IntegrityError`
+ * thrown at the end of the download, and data that was already read must be discarded.
  */
-export class Download implements AsyncIterable<Uint8Array> {
+export class Download extends EventEmitter implements AsyncIterable<Uint8Array> {
   private res?: Promise<Response>;
   private readonly abortController: AbortController;
 
-  public constructor(private readonly client: typeof ky, private readonly endpoint: string) {
+  public constructor(
+    private readonly client: typeof ky,
+    private readonly endpoint: string,
+    private readonly retryConfig: Required<RetryConfig> | false = false,
+    private readonly options: DownloadOptions = {},
+    private readonly transform?: DownloadTransform,
+    private readonly context = 'document download',
+  ) {
+    super();
     this.abortController = new AbortController();
   }
 
-  public async *[Symbol.asyncIterator](): AsyncIterator<Uint8Array> {
-    const body = (await this.makeRequest())?.body;
-    if (!body) return;
-
-    /* istanbul ignore else: tested using Cypress */
-    if ((body as any).getReader === undefined) {
-      // https://github.com/node-fetch/node-fetch/issues/930
-      const bodyReadable = body as any as Readable;
-      yield* bodyReadable;
-    } else {
-      const rdr = body.getReader();
-      let chunk;
-      do {
-        chunk = await rdr.read();
-        if (chunk.value) yield chunk.value;
-      } while (!chunk.done);
-    }
+  public [Symbol.asyncIterator](): AsyncIterator<Uint8Array> {
+    const data = this.readResponse();
+    return (this.transform ? this.transform(data) : data)[Symbol.asyncIterator]();
   }
 
   public abort(): void {
@@ -309,6 +529,24 @@ export class Download implements AsyncIterable<Uint8Array> {
    * This method must not be used alongside `getStream` or `AsyncIterable`.
    */
   public async pipeTo(sink: Writable | WriteStream | WritableStream): Promise<void> {
+    const needsIterator =
+      this.retryConfig !== false ||
+      this.transform !== undefined ||
+      this.listenerCount('progress') > 0;
+    if ('getWriter' in sink && needsIterator) {
+      // Resumption, transforms, and progress are handled by the iterator,
+      // so the native `pipeTo` can't be used.
+      const writer = sink.getWriter();
+      try {
+        for await (const chunk of this) await writer.write(chunk);
+      } catch (error: any) {
+        await writer.abort(error);
+        throw error;
+      }
+
+      return writer.close();
+    }
+
     if ('getWriter' in sink) {
       const { body } = await this.makeRequest();
       if (!body) return;
@@ -331,23 +569,138 @@ export class Download implements AsyncIterable<Uint8Array> {
     });
   }
 
+  private async *readResponse(): AsyncGenerator<Uint8Array, void, undefined> {
+    let res = await this.makeRequest();
+    if (!res.body) return;
+
+    const contentLength = res.headers.get('content-length');
+    const progress = new ProgressTracker(
+      (p) => this.emit('progress', p),
+      contentLength === null ? undefined : Number(contentLength),
+    );
+    progress.report();
+
+    // A strong validator ensures that a resumed download continues the same content.
+    const etag = res.headers.get('etag');
+    const ifRange = etag?.startsWith('"') ? etag : undefined;
+
+    const { integrity, range } = this.options;
+    const verifier = integrity && !range ? await IntegrityVerifier.create(integrity) : undefined;
+
+    let received = 0;
+    for (let resumeCount = 0; ; resumeCount++) {
+      try {
+        for await (const chunk of readBody(res.body)) {
+          received += chunk.length;
+          verifier?.update(chunk);
+          progress.add(chunk.length);
+          yield chunk;
+        }
+
+        verifier?.verify();
+        return;
+      } catch (error: any) {
+        if (!this.canResume(error, resumeCount)) throw error;
+      }
+
+      res = await this.request(received, ifRange);
+      if (!res.body) return;
+    }
+  }
+
   /**
    * Lazily make the request. Helps avoid unhandled promise rejections when the request
    * fails before a pipe or iterator handler is attached.
    */
   // This function returns double promise to make both xo and TS happy. V8 doesn't care.
   private async makeRequest(): Promise<Response> {
-    if (!this.res) {
-      this.res = this.client.get(this.endpoint, {
-        signal: this.abortController.signal,
+    if (!this.res) this.res = this.request(0);
+    return this.res;
+  }
+
+  /** Requests the content following the first `offset` bytes of the requested range. */
+  private async request(offset: number, ifRange?: string): Promise<Response> {
+    const { signal } = this.abortController;
+    const { range } = this.options;
+    const start = (range?.start ?? 0) + offset;
+    const end = range?.end;
+    const isPartial = start > 0 || end !== undefined;
+
+    const headers: Record<string, string> = {};
+    if (isPartial) headers.range = `bytes=${start}-${end ?? ''}`;
+    if (ifRange) headers['if-range'] = ifRange;
+
+    return withRetries(this.retryConfig, { method: 'GET', signal }, async () => {
+      const res = await this.client.get(this.endpoint, {
+        signal,
+        headers,
         hooks: {
-          beforeRequest: [attachContext('document download')],
+          beforeRequest: [
+            attachContext(this.context),
+            ...(isPartial ? [addAllowedStatusCode(206)] : []),
+          ],
         },
         prefixUrl: '',
       });
-    }
+      if (isPartial) checkContentRange(res, start, end);
+      return res;
+    });
+  }
 
-    return this.res;
+  /** Returns whether a download that failed mid-transfer may be resumed. */
+  private canResume(error: any, resumeCount: number): boolean {
+    return (
+      this.retryConfig !== false &&
+      resumeCount < this.retryConfig.limit &&
+      !this.aborted &&
+      isTransientError(error)
+    );
+  }
+}
+
+/** Ensures that the response to a `Range` request contains the requested bytes. */
+function checkContentRange(res: Response, start: number, end?: number): void {
+  if (res.status !== 206) {
+    throw new DownloadRangeError(
+      `expected partial content for bytes ${start}-${end ?? ''}, got status ${res.status}`,
+    );
+  }
+
+  const contentRange = res.headers.get('content-range');
+  const match = contentRange ? /^bytes (\d+)-(\d+)\/(\d+|\*)$/.exec(contentRange) : null;
+  if (
+    !match ||
+    Number(match[1]) !== start ||
+    (end !== undefined && Number(match[2]) > end) ||
+    Number(match[2]) < start
+  ) {
+    throw new DownloadRangeError(
+      `requested bytes ${start}-${end ?? ''}, got content range \`${contentRange ?? ''}\``,
+    );
+  }
+}
+
+async function* readBody(
+  body: ReadableStream<Uint8Array>,
+): AsyncGenerator<Uint8Array, void, undefined> {
+  if (body instanceof Uint8Array) {
+    // Node-fetch keeps the body of a `Response` made from bytes (e.g., by a custom `fetch`) as-is.
+    yield body;
+    return;
+  }
+
+  /* istanbul ignore else: tested using Cypress */
+  if ((body as any).getReader === undefined) {
+    // https://github.com/node-fetch/node-fetch/issues/930
+    const bodyReadable = body as any as Readable;
+    yield* bodyReadable;
+  } else {
+    const rdr = body.getReader();
+    let chunk;
+    do {
+      chunk = await rdr.read();
+      if (chunk.value) yield chunk.value;
+    } while (!chunk.done);
   }
 }
 
@@ -1,10 +1,19 @@
 import type { Merge, Opaque, SetOptional } from 'type-fest';
 
 import type { AppId } from './app.js';
-import type { PODGrant } from './grant.js';
-import { Grant } from './grant.js';
+import type { ListGrantsFilter, PODGrant, RevocationReport, RevokeGrantOptions } from './grant.js';
+import { Grant, GrantImpl, RevocationError } from './grant.js';
 import type { HttpClient } from './http.js';
-import type { Model, Page, PageParams, PODModel, ResourceId, Writable } from './model.js';
+import type {
+  Model,
+  Page,
+  PageParams,
+  PaginateOptions,
+  PODModel,
+  ResourceId,
+  Writable,
+} from './model.js';
+import { paginate } from './model.js';
 import { Permission } from './permission.js';
 import type { PermissionId, PODPermission } from './permission.js';
 import type { IdentityTokenClaims, PublicJWK } from './token.js';
@@ -69,6 +78,18 @@ export class Identity implements Model {
     return IdentityImpl.listLinkedEthAddrs(this.#client, this.id, filter);
   }
 
+  /** Iterates over every Ethereum address linked to this identity, fetching pages as needed. */
+  public iterateLinkedEthAddrs(
+    filter?: PageParams,
+    options?: PaginateOptions,
+  ): AsyncIterable<LinkedEthAddr> {
+    return paginate(
+      async (f) => IdentityImpl.listLinkedEthAddrs(this.#client, this.id, f),
+      filter ?? {},
+      options,
+    );
+  }
+
   /** Fetches permissions to which this identity has agreed.  */
   public async listGrantedPermissions(
     filter?: ListGrantedPermissionsFilter & PageParams,
@@ -76,6 +97,18 @@ export class Identity implements Model {
     return IdentityImpl.listGrantedPermissions(this.#client, this.id, filter);
   }
 
+  /** Iterates over every permission to which this identity has agreed, fetching pages as needed. */
+  public iterateGrantedPermissions(
+    filter?: ListGrantedPermissionsFilter & PageParams,
+    options?: PaginateOptions,
+  ): AsyncIterable<Permission> {
+    return paginate(
+      async (f) => IdentityImpl.listGrantedPermissions(this.#client, this.id, f),
+      filter ?? {},
+      options,
+    );
+  }
+
   public async grantPermission(id: PermissionId): Promise<GrantedPermission> {
     return IdentityImpl.grantPermission(this.#client, this.id, id);
   }
@@ -85,8 +118,18 @@ export class Identity implements Model {
     return IdentityImpl.getGrantedPermission(this.#client, this.id, id);
   }
 
-  public async revokePermission(id: PermissionId): Promise<void> {
-    return IdentityImpl.revokePermission(this.#client, this.id, id);
+  /**
+   * Revokes a permission, which revokes the grants that were made when it was granted.
+   * @returns a report of the revocation. The revoked grants are listed only if
+   * `options.cascade` or `options.dryRun` is set; with `cascade`, they include the grants
+   * delegated from the permission's grants.
+   * @throws `RevocationError`, with the report so far, if the permission could not be revoked.
+   */
+  public async revokePermission(
+    id: PermissionId,
+    options?: RevokeGrantOptions,
+  ): Promise<RevocationReport> {
+    return IdentityImpl.revokePermission(this.#client, this.id, id, options);
   }
 
   // Tokenization
@@ -95,6 +138,18 @@ export class Identity implements Model {
     return IdentityImpl.listHeldTokens(this.#client, this.id, filter);
   }
 
+  /** Iterates over the balance of every token held by this identity, fetching pages as needed. */
+  public iterateTokens(
+    filter?: PageParams,
+    options?: PaginateOptions,
+  ): AsyncIterable<TokenBalance> {
+    return paginate(
+      async (f) => IdentityImpl.listHeldTokens(this.#client, this.id, f),
+      filter ?? {},
+      options,
+    );
+  }
+
   public async getTokenBalance(token: TokenId): Promise<TokenBalance> {
     return IdentityImpl.getTokenBalance(this.#client, this.id, token);
   }
@@ -251,8 +306,31 @@ export namespace IdentityImpl {
     client: HttpClient,
     identityId: IdentityId,
     permissionId: PermissionId,
-  ): Promise<void> {
-    await client.delete(endpointForPermission(identityId, permissionId));
+    options?: RevokeGrantOptions,
+  ): Promise<RevocationReport> {
+    let report: RevocationReport = { dryRun: options?.dryRun ?? false, revoked: [], failed: [] };
+    if (options?.cascade || report.dryRun) {
+      const grants: Grant[] = [];
+      const filter: ListGrantsFilter & PageParams = { granter: identityId };
+      for await (const grant of paginate(async (f) => GrantImpl.list(client, f), filter)) {
+        if (grant.permission === permissionId) grants.push(grant);
+      }
+
+      // The permission's grants are revoked along with it, after their delegated grants.
+      report = await GrantImpl.revokeGrants(client, grants, async () => undefined, options);
+    }
+
+    if (report.dryRun) return report;
+    try {
+      await client.delete(endpointForPermission(identityId, permissionId));
+    } catch (error: any) {
+      const kept = report.revoked.filter((grant) => grant.permission === permissionId);
+      report.revoked = report.revoked.filter((grant) => grant.permission !== permissionId);
+      report.failed.push(...kept.map((grant) => ({ grant, error })));
+      throw new RevocationError(report, error);
+    }
+
+    return report;
   }
 
   export async function listHeldTokens(
@@ -22,16 +22,51 @@ import type {
   ServiceClientUpdateParams,
 } from './client.js';
 import { BackendClient, ClientImpl, ClientType, FrontendClient, ServiceClient } from './client.js';
-import type { Job, JobId, JobSpec, JobStatus, JobStatusReport } from './compute.js';
+import type {
+  GetJobDocumentsOptions,
+  Job,
+  JobId,
+  JobLogsOptions,
+  JobSpec,
+  JobSpecIssue,
+  JobStatus,
+  JobStatusReport,
+  WaitForJobOptions,
+} from './compute.js';
 import {
   ComputeImpl,
   InputDocumentSpec,
+  InvalidJobSpecError,
+  JobLogs,
   JobPhase,
+  JobSpecBuilder,
+  JobTimeoutError,
+  JobWatcher,
   ListJobsFilter,
   OutputDocument,
   OutputDocumentSpec,
+  validateJobSpec,
 } from './compute.js';
-import type { Condition } from './condition.js';
+import type {
+  BuiltCondition,
+  Condition,
+  ConditionContext,
+  ConditionEvaluation,
+  ConditionIssue,
+  ConditionTrace,
+  PrintConditionOptions,
+} from './condition.js';
+import {
+  cond,
+  ConditionError,
+  ConditionSyntaxError,
+  evaluateCondition,
+  InvalidConditionError,
+  normalizeCondition,
+  parseCondition,
+  printCondition,
+  validateCondition,
+} from './condition.js';
 import type {
   Database,
   DatabaseCreateParams,
@@ -53,12 +88,49 @@ import type {
   ListAccessLogFilter,
   Storable,
   Upload,
+  UploadOptions,
+  UploadSession,
+  UploadSessionId,
 } from './document.js';
 import { DocumentImpl } from './document.js';
-import type { Grant, GrantCreateParams, GrantId } from './grant.js';
-import { Capabilities, GrantImpl, ListGrantsFilter } from './grant.js';
-import type { Config as ClientConfig, Download } from './http.js';
-import { ApiError, HttpClient } from './http.js';
+import type { DocumentEncryption, EncryptionOptions, KeyEncryptionKey } from './encryption.js';
+import { DecryptionError } from './encryption.js';
+import type {
+  AccessExplanation,
+  ApplyGrantPlanOptions,
+  Capability,
+  CapabilitySetLike,
+  DelegationTree,
+  ExplainAccessParams,
+  GetDelegatedGrantsOptions,
+  Grant,
+  GrantCreateParams,
+  GrantExplanation,
+  GrantId,
+  GrantMismatch,
+  GrantPlanResult,
+  PlanGrantsOptions,
+  RevocationReport,
+  RevokeGrantOptions,
+} from './grant.js';
+import {
+  Capabilities,
+  CapabilitySet,
+  GrantImpl,
+  GrantPlan,
+  ListGrantsFilter,
+  RevocationError,
+} from './grant.js';
+import type {
+  ByteRange,
+  Config as ClientConfig,
+  Download,
+  DownloadOptions,
+  RequestOptions,
+  TransferProgress,
+  WriteOptions,
+} from './http.js';
+import { ApiError, DownloadRangeError, HttpClient } from './http.js';
 import type {
   EthAddrProver,
   GrantedPermission,
@@ -68,11 +140,24 @@ import type {
   IdentityUpdateParams,
 } from './identity.js';
 import { IdentityImpl } from './identity.js';
+import type { DocumentIntegrity } from './integrity.js';
+import { IntegrityError } from './integrity.js';
 import type { GetUsageFilter, MeteringQuota, MeteringReport, QuotaUpdateParams } from './meter.js';
 import { MeterImpl } from './meter.js';
-import type { Page, PageParams } from './model.js';
+import type { Page, PageParams, PaginateOptions } from './model.js';
+import { AbortError, paginate } from './model.js';
 import type { Permission, PermissionCreateParams, PermissionId } from './permission.js';
 import { PermissionImpl } from './permission.js';
+import type {
+  PipelineResult,
+  PipelineStep,
+  PipelineStepInput,
+  PipelineStepResult,
+  PipelineStepStatus,
+  RunPipelineOptions,
+} from './pipeline.js';
+import { PipelineError, PipelineRun } from './pipeline.js';
+import type { RetryConfig } from './retry.js';
 import type {
   ClientCredentials,
   PrivateJWK,
@@ -101,56 +186,94 @@ import type {
 import { TokenImpl } from './tokenization.js';
 
 export {
+  AbortError,
   AccessContext,
   AccessEvent,
+  AccessExplanation,
   ApiError,
   App,
   AppCreateParams,
   AppId,
   AppUpdateParams,
+  ApplyGrantPlanOptions,
   AssetId,
   BackendClient,
+  BuiltCondition,
   BackendClientCreateParams,
   BackendClientUpdateParams,
+  ByteRange,
   Capabilities,
+  Capability,
+  CapabilitySet,
+  CapabilitySetLike,
   Client,
   ClientCreateParams,
   ClientCredentials,
   ClientId,
   ClientType,
   Condition,
+  ConditionContext,
+  ConditionError,
+  ConditionEvaluation,
+  ConditionIssue,
+  ConditionSyntaxError,
+  ConditionTrace,
   Database,
   DatabaseCreateParams,
   DatabaseId,
   DatabaseUpdateParams,
+  DecryptionError,
+  DelegationTree,
   Document,
+  DocumentEncryption,
   DocumentId,
+  DocumentIntegrity,
   DocumentUpdateParams,
   DocumentUploadParams,
   Download,
+  DownloadOptions,
+  DownloadRangeError,
+  EncryptionOptions,
   EscrowedAsset,
   EscrowedAssetSearchParams,
   EthAddr,
   EthAddrProver,
+  ExplainAccessParams,
   FrontendClient,
   FrontendClientCreateParams,
   FrontendClientUpdateParams,
+  GetDelegatedGrantsOptions,
+  GetJobDocumentsOptions,
   GetUsageFilter,
   Grant,
   GrantCreateParams,
+  GrantExplanation,
   GrantId,
+  GrantMismatch,
+  GrantPlan,
+  GrantPlanResult,
   GrantedPermission,
   Identity,
   IdentityCreateParams,
   IdentityId,
   IdentityUpdateParams,
   InputDocumentSpec,
+  IntegrityError,
+  InvalidConditionError,
+  InvalidJobSpecError,
   Job,
   JobId,
+  JobLogs,
+  JobLogsOptions,
   JobPhase,
   JobSpec,
+  JobSpecBuilder,
+  JobSpecIssue,
   JobStatus,
   JobStatusReport,
+  JobTimeoutError,
+  JobWatcher,
+  KeyEncryptionKey,
   MeteringQuota,
   MeteringReport,
   OutputDocument,
@@ -158,15 +281,31 @@ export {
   PARCEL_RUNTIME_AUD,
   Page,
   PageParams,
+  PaginateOptions,
   Permission,
   PermissionCreateParams,
   PermissionId,
+  PipelineError,
+  PipelineResult,
+  PipelineRun,
+  PipelineStep,
+  PipelineStepInput,
+  PipelineStepResult,
+  PipelineStepStatus,
+  PlanGrantsOptions,
+  PrintConditionOptions,
   PrivateJWK,
   PublicJWK,
   QuotaUpdateParams,
   RefreshingTokenProviderParams,
+  RequestOptions,
   RemoteToken,
   RenewingTokenProviderParams,
+  RetryConfig,
+  RevocationError,
+  RevocationReport,
+  RevokeGrantOptions,
+  RunPipelineOptions,
   Scope,
   SelfIssuedTokenProviderParams,
   ServiceClient,
@@ -182,8 +321,22 @@ export {
   TokenSource,
   TokenTransferability,
   TokenizationReceipt,
+  TransferProgress,
   TransferReceipt,
   TransferReceiptId,
+  Upload,
+  UploadOptions,
+  UploadSession,
+  UploadSessionId,
+  WaitForJobOptions,
+  WriteOptions,
+  cond,
+  evaluateCondition,
+  normalizeCondition,
+  parseCondition,
+  printCondition,
+  validateCondition,
+  validateJobSpec,
 };
 
 /**
@@ -209,6 +362,8 @@ export class Parcel {
       apiUrl: config?.apiUrl,
       storageUrl: config?.storageUrl,
       httpClientConfig: config?.httpClientConfig,
+      retry: config?.retry,
+      encryption: config?.encryption,
     });
   }
 
@@ -252,12 +407,24 @@ export class Parcel {
     return DatabaseImpl.list(this.client, params);
   }
 
+  /** Iterates over every database matching `params`, fetching pages as needed. */
+  public iterateDatabases(
+    params?: ListDatabasesFilter & PageParams,
+    options?: PaginateOptions,
+  ): AsyncIterable<Database> {
+    return paginate(async (p) => DatabaseImpl.list(this.client, p), params ?? {}, options);
+  }
+
   public async deleteDatabase(id: DatabaseId): Promise<void> {
     return DatabaseImpl.delete_(this.client, id);
   }
 
-  public uploadDocument(data: Storable, params: DocumentUploadParams | undefined | null): Upload {
-    return DocumentImpl.upload(this.client, data, params);
+  public uploadDocument(
+    data: Storable,
+    params: DocumentUploadParams | undefined | null,
+    options?: UploadOptions,
+  ): Upload {
+    return DocumentImpl.upload(this.client, data, params, options);
   }
 
   public async getDocument(id: DocumentId): Promise<Document> {
@@ -270,8 +437,17 @@ export class Parcel {
     return DocumentImpl.search(this.client, params);
   }
 
-  public downloadDocument(id: DocumentId): Download {
-    return DocumentImpl.download(this.client, id);
+  /** Iterates over every document matching `params`, fetching pages as needed. */
+  public iterateDocuments(
+    params?: DocumentSearchParams & PageParams,
+    options?: PaginateOptions,
+  ): AsyncIterable<Document> {
+    return paginate(async (p) => DocumentImpl.search(this.client, p), params ?? {}, options);
+  }
+
+  /** Downloads the document's data, or only the bytes in `options.range`. */
+  public downloadDocument(id: DocumentId, options?: DownloadOptions): Download {
+    return DocumentImpl.download(this.client, id, options);
   }
 
   public async getDocumentHistory(
@@ -281,6 +457,15 @@ export class Parcel {
     return DocumentImpl.history(this.client, id, filter);
   }
 
+  /** Iterates over every access of the document, fetching pages as needed. */
+  public iterateDocumentHistory(
+    id: DocumentId,
+    filter?: ListAccessLogFilter & PageParams,
+    options?: PaginateOptions,
+  ): AsyncIterable<AccessEvent> {
+    return paginate(async (f) => DocumentImpl.history(this.client, id, f), filter ?? {}, options);
+  }
+
   public async updateDocument(id: DocumentId, update: DocumentUpdateParams): Promise<Document> {
     return DocumentImpl.update(this.client, id, update);
   }
@@ -301,6 +486,14 @@ export class Parcel {
     return AppImpl.list(this.client, filter);
   }
 
+  /** Iterates over every app matching `filter`, fetching pages as needed. */
+  public iterateApps(
+    filter?: ListAppsFilter & PageParams,
+    options?: PaginateOptions,
+  ): AsyncIterable<App> {
+    return paginate(async (f) => AppImpl.list(this.client, f), filter ?? {}, options);
+  }
+
   public async updateApp(id: AppId, update: AppUpdateParams): Promise<App> {
     return AppImpl.update(this.client, id, update);
   }
@@ -317,6 +510,15 @@ export class Parcel {
     return PermissionImpl.list(this.client, appId, filter);
   }
 
+  /** Iterates over every permission of the app, fetching pages as needed. */
+  public iteratePermissions(
+    appId: AppId,
+    filter?: PageParams,
+    options?: PaginateOptions,
+  ): AsyncIterable<Permission> {
+    return paginate(async (f) => PermissionImpl.list(this.client, appId, f), filter ?? {}, options);
+  }
+
   public async deletePermission(appId: AppId, permissionId: PermissionId): Promise<void> {
     return PermissionImpl.delete_(this.client, appId, permissionId);
   }
@@ -336,6 +538,15 @@ export class Parcel {
     return ClientImpl.list(this.client, appId, filter);
   }
 
+  /** Iterates over every client of the app matching `filter`, fetching pages as needed. */
+  public iterateClients(
+    appId: AppId,
+    filter?: ListClientsFilter & PageParams,
+    options?: PaginateOptions,
+  ): AsyncIterable<Client> {
+    return paginate(async (f) => ClientImpl.list(this.client, appId, f), filter ?? {}, options);
+  }
+
   public async updateClient(
     appId: AppId,
     clientId: ClientId,
@@ -348,8 +559,12 @@ export class Parcel {
     return ClientImpl.delete_(this.client, appId, clientId);
   }
 
-  public async createGrant(params: GrantCreateParams): Promise<Grant> {
-    return GrantImpl.create(this.client, params);
+  /**
+   * Creates a grant.
+   * @throws `InvalidConditionError` if the condition fails `validateCondition`.
+   */
+  public async createGrant(params: GrantCreateParams, options?: WriteOptions): Promise<Grant> {
+    return GrantImpl.create(this.client, params, options);
   }
 
   public async getGrant(id: GrantId): Promise<Grant> {
@@ -360,17 +575,79 @@ export class Parcel {
     return GrantImpl.list(this.client, filter);
   }
 
+  /** Iterates over every grant matching `filter`, fetching pages as needed. */
+  public iterateGrants(
+    filter?: ListGrantsFilter & PageParams,
+    options?: PaginateOptions,
+  ): AsyncIterable<Grant> {
+    return paginate(async (f) => GrantImpl.list(this.client, f), filter ?? {}, options);
+  }
+
+  /**
+   * Lists the grants that expire within `within` milliseconds from now, soonest first.
+   * A grant expires at the upper bound of the `accessTime` in its condition, which is set by
+   * creating it with `expiresAt`.
+   */
+  public async listExpiringGrants(within: number, filter?: ListGrantsFilter): Promise<Grant[]> {
+    return GrantImpl.listExpiring(this.client, within, filter);
+  }
+
   public async deleteGrant(id: GrantId): Promise<void> {
     return GrantImpl.delete_(this.client, id);
   }
 
+  /**
+   * Deletes a grant and, if `options.cascade` is set, the grants delegated from it, which are
+   * deleted first, leaf-first. Failures do not stop the revocation, but are reported.
+   * Use `options.dryRun` to see what would be revoked.
+   */
+  public async revokeGrant(id: GrantId, options?: RevokeGrantOptions): Promise<RevocationReport> {
+    return GrantImpl.revoke(this.client, id, options);
+  }
+
+  /**
+   * Finds the grants that extend a grant by delegation, the grants that extend those, and so
+   * on. Use `grant.getDelegationChain()` to find the grants that a grant extends.
+   * Only grants visible to the caller are found.
+   */
+  public async getDelegatedGrants(
+    grantId: GrantId,
+    options?: GetDelegatedGrantsOptions,
+  ): Promise<DelegationTree> {
+    return GrantImpl.getDelegatedGrants(this.client, grantId, options);
+  }
+
+  /**
+   * Plans the creates and deletes that would make the existing grants (selected by
+   * `options.filter`, or else those you gave) match the `desired` ones. Print the plan to review it, and then `apply` it.
+   * @throws `InvalidConditionError` if a desired grant's condition fails `validateCondition`.
+   */
+  public async planGrants(
+    desired: GrantCreateParams[],
+    options?: PlanGrantsOptions,
+  ): Promise<GrantPlan> {
+    return GrantImpl.plan(this.client, desired, options);
+  }
+
+  /**
+   * Explains why an access to a document would be allowed or denied, e.g., after a download
+   * fails with a 403, by checking each grant visible to the caller against the document and
+   * the access context, and evaluating the grant's condition using `evaluateCondition`.
+   * Grants that the caller cannot see, such as other identities' grants, are not considered.
+   */
+  public async explainAccess(params: ExplainAccessParams): Promise<AccessExplanation> {
+    return GrantImpl.explainAccess(this.client, params);
+  }
+
   /**
    * Enqueues a new job.
    * @param spec Specification for the job to enqueue.
+   * @param options Controls retrying the submission.
    * @result Job The new job, including a newly-assigned ID.
+   * @throws `InvalidJobSpecError` if the spec fails `validateJobSpec`.
    */
-  public async submitJob(spec: JobSpec): Promise<Job> {
-    return ComputeImpl.submitJob(this.client, spec);
+  public async submitJob(spec: JobSpec, options?: WriteOptions): Promise<Job> {
+    return ComputeImpl.submitJob(this.client, spec, options);
   }
 
   /**
@@ -382,6 +659,14 @@ export class Parcel {
     return ComputeImpl.listJobs(this.client, filter);
   }
 
+  /** Iterates over every job matching `filter`, fetching pages as needed. */
+  public iterateJobs(
+    filter?: ListJobsFilter & PageParams,
+    options?: PaginateOptions,
+  ): AsyncIterable<Job> {
+    return paginate(async (f) => ComputeImpl.listJobs(this.client, f), filter ?? {}, options);
+  }
+
   /**
    * Returns the full description of a known job, including its status.
    */
@@ -397,6 +682,43 @@ export class Parcel {
     return ComputeImpl.getJobStatus(this.client, jobId);
   }
 
+  /**
+   * Streams the lines printed by the job. With `follow`, keeps streaming until the job finishes.
+   * This uses a log endpoint that the gateway is assumed, but not documented, to support;
+   * see `JobLogs`.
+   * @param jobId The unique identifier of the job.
+   */
+  public getJobLogs(jobId: JobId, options?: JobLogsOptions): JobLogs {
+    return ComputeImpl.getJobLogs(this.client, jobId, options);
+  }
+
+  /**
+   * Runs a pipeline of jobs. Each step is submitted once the steps it depends on have
+   * succeeded, with the output documents of those steps mounted as its inputs.
+   * @throws `PipelineError` if the steps reference unknown steps or outputs, or form a cycle.
+   */
+  public runPipeline(steps: PipelineStep[], options?: RunPipelineOptions): PipelineRun {
+    return new PipelineRun(this.client, steps, options);
+  }
+
+  /**
+   * Polls the status of the job until it succeeds or fails.
+   * @param jobId The unique identifier of the job.
+   * @result Job The finished job.
+   */
+  public async waitForJob(jobId: JobId, options?: WaitForJobOptions): Promise<Job> {
+    return ComputeImpl.waitForJob(this.client, jobId, options);
+  }
+
+  /**
+   * Like `waitForJob`, but returns a `JobWatcher` that emits an event whenever the job enters a
+   * new phase.
+   * @param jobId The unique identifier of the job.
+   */
+  public watchJob(jobId: JobId, options?: WaitForJobOptions): JobWatcher {
+    return new JobWatcher(this.client, jobId, options);
+  }
+
   /**
    * Schedules the job for eventual termination/deletion. The job will be terminated at some point in the future on a best-effort basis.
    * It is not an error to request to terminate an already-terminated or non-existing job.
@@ -406,6 +728,15 @@ export class Parcel {
     return ComputeImpl.terminateJob(this.client, jobId);
   }
 
+  /**
+   * Revokes the job's access to the Parcel gateway, so the job can no longer make API requests
+   * on behalf of its submitter.
+   * @param jobId The unique identifier of the job.
+   */
+  public async revokeGatewayAccess(jobId: JobId): Promise<void> {
+    return ComputeImpl.revokeGatewayAccess(this.client, jobId);
+  }
+
   /**
    * Gets a metering report for your API usage.
    * @param filter Controls API usage window.
@@ -450,6 +781,14 @@ export class Parcel {
     return TokenImpl.search(this.client, filter);
   }
 
+  /** Iterates over every token matching `filter`, fetching pages as needed. */
+  public iterateTokens(
+    filter?: TokenSearchParams & PageParams,
+    options?: PaginateOptions,
+  ): AsyncIterable<Token> {
+    return paginate(async (f) => TokenImpl.search(this.client, f), filter ?? {}, options);
+  }
+
   /** Returns information about an asset held by the escrow identity. */
   public async searchEscrowedAssets(
     filter?: EscrowedAssetSearchParams & PageParams,
@@ -457,6 +796,14 @@ export class Parcel {
     return AssetImpl.search(this.client, filter);
   }
 
+  /** Iterates over every escrowed asset matching `filter`, fetching pages as needed. */
+  public iterateEscrowedAssets(
+    filter?: EscrowedAssetSearchParams & PageParams,
+    options?: PaginateOptions,
+  ): AsyncIterable<EscrowedAsset> {
+    return paginate(async (f) => AssetImpl.search(this.client, f), filter ?? {}, options);
+  }
+
   /** Returns information about an asset held by the escrow identity. */
   public async getEscrowedAsset(assetId: AssetId): Promise<EscrowedAsset> {
     return AssetImpl.get(this.client, assetId);
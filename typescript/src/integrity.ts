@@ -0,0 +1,105 @@
+import jsrsasign from 'jsrsasign';
+
+/** The size and digest that a document's data is expected to have. */
+export type DocumentIntegrity = {
+  /** The size of the data in bytes. */
+  size: number;
+
+  /** The hex-encoded SHA-256 digest of the data, if known. */
+  sha256?: string;
+};
+
+/** Thrown when downloaded data does not match the size or digest of the document. */
+export class IntegrityError extends Error {
+  name = 'IntegrityError';
+
+  public constructor(
+    message: string,
+    public readonly expected: string | number,
+    public readonly actual: string | number,
+  ) {
+    super(message);
+  }
+}
+
+/** An incremental SHA-256 hash. */
+export type Sha256 = {
+  update: (bytes: Uint8Array) => void;
+
+  /** Returns the hex-encoded digest of all bytes passed to `update`. */
+  digest: () => string;
+};
+
+export async function createSha256(): Promise<Sha256> {
+  if (globalThis?.process?.versions?.node) {
+    // eslint-disable-next-line node/no-unsupported-features/es-syntax
+    const { createHash } = (await import('crypto')).default; // This only happens in node.
+    const hash = createHash('sha256');
+    return {
+      update: (bytes) => {
+        hash.update(bytes);
+      },
+      digest: () => hash.digest('hex'),
+    };
+  }
+
+  // The typings declare that `digest` returns `void`, but it returns the hex-encoded digest.
+  const md = new jsrsasign.KJUR.crypto.MessageDigest({
+    alg: 'sha256',
+    prov: 'cryptojs',
+  }) as unknown as { updateHex: (hex: string) => void; digest: () => string };
+  return {
+    update: (bytes) => {
+      md.updateHex(toHex(bytes));
+    },
+    digest: () => md.digest(),
+  };
+}
+
+/** Checks that the bytes passed to `update` match the expected size and digest. */
+export class IntegrityVerifier {
+  private size = 0;
+
+  private constructor(
+    private readonly expected: DocumentIntegrity,
+    private readonly sha256?: Sha256,
+  ) {}
+
+  public static async create(expected: DocumentIntegrity): Promise<IntegrityVerifier> {
+    return new IntegrityVerifier(
+      expected,
+      expected.sha256 === undefined ? undefined : await createSha256(),
+    );
+  }
+
+  public update(bytes: Uint8Array): void {
+    this.size += bytes.length;
+    if (this.size > this.expected.size) this.fail('size', this.expected.size, this.size);
+    this.sha256?.update(bytes);
+  }
+
+  /** Throws an `IntegrityError` if the data was truncated or its digest does not match. */
+  public verify(): void {
+    if (this.size !== this.expected.size) this.fail('size', this.expected.size, this.size);
+    if (this.sha256 && this.expected.sha256 !== undefined) {
+      const digest = this.sha256.digest();
+      if (digest !== this.expected.sha256.toLowerCase()) {
+        this.fail('SHA-256 digest', this.expected.sha256, digest);
+      }
+    }
+  }
+
+  private fail(property: string, expected: string | number, actual: string | number): never {
+    throw new IntegrityError(
+      `downloaded data has ${property} ${actual}, expected ${expected}`,
+      expected,
+      actual,
+    );
+  }
+}
+
+function toHex(bytes: Uint8Array): string {
+  let hex = '';
+  for (const byte of bytes) hex += byte.toString(16).padStart(2, '0');
+  return hex;
+}
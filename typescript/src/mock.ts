@@ -0,0 +1,1609 @@
+import type { Except } from 'type-fest';
+
+import type { PODApp } from './app.js';
+import type { EscrowedAsset } from './asset.js';
+import type { PODClient } from './client.js';
+import type { JobSpec, PODJob } from './compute.js';
+import { JobPhase } from './compute.js';
+import type { Condition, ConditionContext } from './condition.js';
+import { evaluateCondition, InvalidConditionError, validateCondition } from './condition.js';
+import type { PODDatabase, Row } from './database.js';
+import type { PODAccessEvent, PODDocument } from './document.js';
+import type { PODGrant } from './grant.js';
+import { CapabilitySet } from './grant.js';
+import type { Config } from './http.js';
+import type { IdentityId, PODIdentity } from './identity.js';
+import type { PODMeteringQuota, PODMeteringReport } from './meter.js';
+import type { Page, ResourceId } from './model.js';
+import type { GranteeRef, PODPermission } from './permission.js';
+import type { PODToken, PODTransferReceipt, TokenBalance } from './tokenization.js';
+
+export type MockGatewayOptions = Partial<{
+  /** The URL at which the gateway serves the API. Defaults to the client's default. */
+  apiUrl: string;
+
+  /** The URL at which the gateway serves document storage. Defaults to the client's default. */
+  storageUrl: string;
+
+  /** Runs submitted jobs. By default, jobs succeed and output empty documents. */
+  runJob: MockJobRunner;
+}>;
+
+/** An identity of a `MockGateway`, with a token that authenticates as it. */
+export type MockIdentity = {
+  id: IdentityId;
+  token: string;
+};
+
+/** A job being run by a `MockGateway`. */
+export type MockJob = {
+  spec: JobSpec;
+  submitter: IdentityId;
+
+  /** The data of the job's input documents, by `mountPath`. */
+  inputs: Map<string, Uint8Array>;
+};
+
+/** The outcome of a job run by a `MockGateway`. */
+export type MockJobResult = Partial<{
+  /** Whether the job succeeded. Defaults to `true`. */
+  succeeded: boolean;
+
+  /** The message of the job's final status. */
+  message: string;
+
+  /** The lines printed by the job. */
+  logs: string[];
+
+  /** The data of the job's output documents, by `mountPath`. Missing outputs are empty. */
+  outputs: Record<string, Uint8Array | string>;
+}>;
+
+export type MockJobRunner = (job: MockJob) => MockJobResult | Promise<MockJobResult>;
+
+const DEFAULT_API_URL = 'https://api.oasislabs.com/parcel/v1';
+const DEFAULT_STORAGE_URL = 'https://storage.oasislabs.com/v1/parcel';
+const DEFAULT_PAGE_SIZE = 100;
+const DEFAULT_QUOTA: PODMeteringQuota = {
+  apiCallsLimit: 100_000,
+  accessedBytesLimit: 10 * 1024 ** 3,
+  computeMsecLimit: 24 * 60 * 60 * 1000,
+};
+
+/** A request to a `MockGateway`, as seen by its route handlers. */
+type MockRequest = {
+  caller: IdentityId;
+  query: URLSearchParams;
+  headers: Headers;
+  body: Uint8Array;
+
+  /** The body parsed as JSON, or `undefined` if it is not JSON. */
+  json: any;
+};
+
+type MockReply = {
+  status?: number;
+  json?: unknown;
+  bytes?: Uint8Array;
+  headers?: Record<string, string>;
+};
+
+type Route = {
+  base: 'api' | 'storage';
+  method: string;
+  pattern: RegExp;
+  handle: (req: MockRequest, ...params: string[]) => MockReply | Promise<MockReply>;
+};
+
+type MockUploadSession = {
+  id: string;
+  creator: IdentityId;
+  metadata: Pick<PODDocument, 'owner' | 'details'> | null;
+  chunks: Uint8Array[];
+  offset: number;
+};
+
+type MockJobState = {
+  pod: PODJob;
+  submitter: IdentityId;
+  logs: string[];
+  submittedAt: number;
+  run?: Promise<MockJobResult>;
+};
+
+type MockTokenState = {
+  pod: PODToken;
+  balances: Map<IdentityId, number>;
+  assets: Set<ResourceId>;
+};
+
+/** A document or database, as the subject of a condition. */
+type MockAsset =
+  | { document: PODDocument; database?: undefined }
+  | { database: PODDatabase; document?: undefined };
+
+/** A `ConditionContext` about the gateway's own assets. */
+type MockContext = Except<ConditionContext, 'document' | 'database'> & {
+  document?: PODDocument;
+  database?: PODDatabase;
+};
+
+type MockUsage = {
+  identity: IdentityId;
+  time: number;
+  field: keyof PODMeteringReport;
+  amount: number;
+};
+
+/** Thrown by route handlers to reply with an error. */
+class MockApiError extends Error {
+  name = 'MockApiError';
+
+  public constructor(public readonly status: number, message: string) {
+    super(message);
+  }
+}
+
+/**
+ * An in-memory Parcel gateway, for testing code that uses Parcel without a network.
+ *
+ * The gateway serves requests through its `fetch` function, which a `Parcel` client uses when
+ * it is made with the gateway's `config`:
+ * ```
+ * const gateway = new MockGateway();
+ * const alice = gateway.createIdentity();
+ * const parcel = new Parcel(alice.token, gateway.config);
+ * ```
+ *
+ * Identities, documents (including resumable uploads, ranged downloads, and access history),
+ * grants, apps, permissions, clients, jobs, databases, tokens, and metering are implemented.
+ * Access is decided as Parcel does: an identity can access its own assets, and those selected
+ * by the conditions of grants from their owners, or of tokens that it holds.
+ *
+ * Some behavior is simplified:
+ * - Jobs advance by one phase (from `Pending` to `Running` to finished) each time their status
+ *   is fetched, and are run by `options.runJob`.
+ * - Databases understand only `CREATE TABLE`, `DROP TABLE`, and `SELECT * FROM` queries with
+ *   `WHERE` clauses of `AND`ed equalities.
+ * - Tokens must be transferable within Parcel; remote tokens are not supported.
+ * - Quotas are recorded, but not enforced.
+ *
+ * Two endpoints mirror what this SDK assumes of the gateway, rather than documented Parcel
+ * behavior, so tests that use them show only that the SDK agrees with itself:
+ * - resumable uploads, through `POST /uploads`, `PUT /uploads/:id`, and
+ *   `POST /uploads/:id/complete` on the storage URL, as used by `uploadDocument` with
+ *   `resumable` set;
+ * - job logs, through `GET /compute/jobs/:id/logs`, as used by `getJobLogs`.
+ *
+ * The gateway is exported from `@oasislabs/parcel/mock`, not from the main entry point.
+ */
+export class MockGateway {
+  public readonly apiUrl: string;
+  public readonly storageUrl: string;
+
+  private readonly runJob: MockJobRunner;
+  private readonly routes: Route[];
+  private nextId = 1;
+
+  private readonly tokens = new Map<string, IdentityId>();
+  private readonly identities = new Map<IdentityId, PODIdentity>();
+  private readonly documents = new Map<ResourceId, PODDocument>();
+  private readonly documentData = new Map<ResourceId, Uint8Array>();
+  private readonly accessEvents: PODAccessEvent[] = [];
+  private readonly uploads = new Map<string, MockUploadSession>();
+  private readonly grants = new Map<ResourceId, PODGrant>();
+  private readonly grantCreators = new Map<ResourceId, IdentityId>();
+  private readonly apps = new Map<ResourceId, PODApp>();
+  private readonly permissions = new Map<ResourceId, PODPermission>();
+  private readonly clients = new Map<ResourceId, PODClient>();
+  private readonly jobs = new Map<ResourceId, MockJobState>();
+  private readonly databases = new Map<ResourceId, PODDatabase>();
+  private readonly tables = new Map<ResourceId, Map<string, Row[]>>();
+  private readonly tokenStates = new Map<ResourceId, MockTokenState>();
+  private readonly receipts = new Map<ResourceId, PODTransferReceipt>();
+  private readonly usage: MockUsage[] = [];
+  private readonly quotas = new Map<IdentityId, PODMeteringQuota>();
+
+  public constructor(options: MockGatewayOptions = {}) {
+    this.apiUrl = (options.apiUrl ?? DEFAULT_API_URL).replace(/\/$/, '');
+    this.storageUrl = (options.storageUrl ?? DEFAULT_STORAGE_URL).replace(/\/$/, '');
+    this.runJob = options.runJob ?? (() => ({}));
+    this.identities.set('escrow', { id: 'escrow', createdAt: now(), tokenVerifiers: [] });
+    this.routes = this.makeRoutes();
+  }
+
+  /** The config with which a `Parcel` client sends its requests to this gateway. */
+  public get config(): Config {
+    return {
+      apiUrl: this.apiUrl,
+      storageUrl: this.storageUrl,
+      httpClientConfig: { fetch: this.fetch },
+    };
+  }
+
+  /** Creates an identity, as if it had been created through the API. */
+  public createIdentity(): MockIdentity {
+    const id = this.makeId('I') as IdentityId;
+    this.identities.set(id, { id, createdAt: now(), tokenVerifiers: [] });
+    return { id, token: this.tokenFor(id) };
+  }
+
+  /** @returns a token that authenticates as the identity, e.g., one created by an app. */
+  public tokenFor(identity: IdentityId): string {
+    if (!this.identities.has(identity)) throw new Error(`unknown identity ${identity}`);
+    const token = `mock-token-${identity}`;
+    this.tokens.set(token, identity);
+    return token;
+  }
+
+  /** Serves a request to the gateway. Requests to other URLs fail like unreachable hosts. */
+  public readonly fetch = async (input: RequestInfo, init?: RequestInit): Promise<Response> => {
+    const request =
+      input instanceof Request && init === undefined ? input : new Request(input, init);
+    const url = new URL(request.url);
+    const href = url.origin + url.pathname;
+    let base: Route['base'];
+    let path: string;
+    if (href === this.storageUrl || href.startsWith(`${this.storageUrl}/`)) {
+      base = 'storage';
+      path = href.slice(this.storageUrl.length + 1);
+    } else if (href.startsWith(`${this.apiUrl}/`)) {
+      base = 'api';
+      path = href.slice(this.apiUrl.length + 1);
+    } else {
+      throw new TypeError(`the mock gateway does not serve ${request.url}`);
+    }
+
+    try {
+      const caller = this.authenticate(request.headers.get('authorization'));
+      const body = await readBody(request);
+      const isJson = request.headers.get('content-type')?.startsWith('application/json');
+      const req: MockRequest = {
+        caller,
+        query: url.searchParams,
+        headers: request.headers,
+        body,
+        json: isJson && body.length > 0 ? JSON.parse(new TextDecoder().decode(body)) : undefined,
+      };
+
+      const methodRoutes = this.routes.filter((r) => r.base === base && r.pattern.test(path));
+      const route = methodRoutes.find((r) => r.method === request.method);
+      if (!route) {
+        throw methodRoutes.length > 0
+          ? new MockApiError(405, `method ${request.method} is not allowed`)
+          : new MockApiError(404, `no such endpoint: ${path}`);
+      }
+
+      const reply = await route.handle(req, ...route.pattern.exec(path)!.slice(1));
+      this.meter(caller, request.method, reply.status ?? 200);
+      return makeResponse(reply);
+    } catch (error: any) {
+      const status = error instanceof MockApiError ? error.status : 500;
+      return makeResponse({ status, json: { error: error.message } });
+    }
+  };
+
+  private makeRoutes(): Route[] {
+    const routes: Route[] = [];
+    const route = (base: Route['base'], method: string, path: string, handle: Route['handle']) => {
+      const pattern = new RegExp(`^${path.replace(/:\w+/g, '([^/]+)')}$`);
+      routes.push({ base, method, pattern, handle: handle.bind(this) });
+    };
+
+    const api = (method: string, path: string, handle: Route['handle']) => {
+      route('api', method, path, handle);
+    };
+
+    // Identities
+    api('POST', 'identities', this.createIdentityRoute);
+    api('GET', 'identities/me', (req) => ({ json: this.identities.get(req.caller) }));
+    api('GET', 'identities/:id', (req, id) => ({ json: this.getIdentity(id) }));
+    api('PUT', 'identities/:id', this.updateIdentity);
+    api('DELETE', 'identities/:id', this.deleteIdentity);
+    api('GET', 'identities/:id/permissions', this.listGrantedPermissions);
+    api('POST', 'identities/:id/permissions/:permission', this.grantPermission);
+    api('GET', 'identities/:id/permissions/:permission', this.getGrantedPermission);
+    api('DELETE', 'identities/:id/permissions/:permission', this.revokePermission);
+    api('GET', 'identities/:id/tokens', this.listHeldTokens);
+    api('GET', 'identities/:id/tokens/:token', this.getTokenBalance);
+
+    // Documents
+    route('storage', 'POST', '', this.uploadDocument);
+    // The resumable upload protocol that this SDK assumes; see `MockGateway`.
+    route('storage', 'POST', 'uploads', this.createUploadSession);
+    route('storage', 'GET', 'uploads/:id', (req, id) => ({ json: this.getUploadSession(req, id) }));
+    route('storage', 'PUT', 'uploads/:id', this.uploadChunk);
+    route('storage', 'POST', 'uploads/:id/complete', this.completeUpload);
+    route('storage', 'GET', ':id/download', this.downloadDocument);
+    api('POST', 'documents/search', this.searchDocuments);
+    api('GET', 'documents/:id', (req, id) => ({ json: this.getDocument(req.caller, id) }));
+    api('PUT', 'documents/:id', this.updateDocument);
+    api('DELETE', 'documents/:id', this.deleteDocument);
+    api('GET', 'documents/:id/history', this.getDocumentHistory);
+
+    // Grants
+    api('POST', 'grants', this.createGrant);
+    api('GET', 'grants', this.listGrants);
+    api('GET', 'grants/:id', (req, id) => ({ json: this.getGrant(req.caller, id) }));
+    api('DELETE', 'grants/:id', this.deleteGrant);
+
+    // Apps, permissions, and clients
+    api('POST', 'apps', this.createApp);
+    api('GET', 'apps', this.listApps);
+    api('GET', 'apps/:id', (req, id) => ({ json: this.getApp(id) }));
+    api('PUT', 'apps/:id', this.updateApp);
+    api('DELETE', 'apps/:id', this.deleteApp);
+    api('POST', 'apps/:id/permissions', this.createPermission);
+    api('GET', 'apps/:id/permissions', (req, id) => ({
+      json: paginateQuery(
+        [...this.permissions.values()].filter(({ appId }) => appId === this.getApp(id).id),
+        req.query,
+      ),
+    }));
+    api('GET', 'apps/:id/permissions/:permission', (req, id, permission) => ({
+      json: this.getPermission(id, permission),
+    }));
+    api('DELETE', 'apps/:id/permissions/:permission', this.deletePermission);
+    api('POST', 'apps/:id/clients', this.createClient);
+    api('GET', 'apps/:id/clients', this.listClients);
+    api('GET', 'apps/:id/clients/:client', (req, id, client) => ({
+      json: this.getClient(id, client),
+    }));
+    api('PUT', 'apps/:id/clients/:client', this.updateClient);
+    api('DELETE', 'apps/:id/clients/:client', this.deleteClient);
+
+    // Compute
+    api('POST', 'compute/jobs', this.submitJob);
+    api('GET', 'compute/jobs', this.listJobs);
+    api('GET', 'compute/jobs/:id', (req, id) => ({ json: this.getJob(req.caller, id).pod }));
+    api('GET', 'compute/jobs/:id/status', this.getJobStatus);
+    // The log endpoint that this SDK assumes; see `MockGateway`.
+    api('GET', 'compute/jobs/:id/logs', this.getJobLogs);
+    api('DELETE', 'compute/jobs/:id', this.terminateJob);
+    api('POST', 'compute/jobs/:id/revoke_gateway_access', (req, id) => {
+      this.getJob(req.caller, id);
+      return { json: {} };
+    });
+
+    // Databases
+    api('POST', 'databases', this.createDatabase);
+    api('GET', 'databases', this.listDatabases);
+    api('GET', 'databases/:id', (req, id) => ({ json: this.getDatabase(req.caller, id) }));
+    api('PUT', 'databases/:id', this.updateDatabase);
+    api('DELETE', 'databases/:id', this.deleteDatabase);
+    api('POST', 'databases/:id', this.queryDatabase);
+    api('POST', 'databases/:id/insert', this.insertRows);
+
+    // Tokenization
+    api('POST', 'tokens', this.mintToken);
+    api('POST', 'tokens/search', this.searchTokens);
+    api('GET', 'tokens/:id', (req, id) => ({ json: this.getToken(id).pod }));
+    api('DELETE', 'tokens/:id', this.deleteToken);
+    api('POST', 'tokens/:id/assets/:asset', this.addTokenAsset);
+    api('DELETE', 'tokens/:id/assets/:asset', this.removeTokenAsset);
+    api('POST', 'tokens/:id/transfers', this.transferToken);
+    api('GET', 'tokens/:id/transfers', this.listTransfers);
+    api('GET', 'tokens/:id/transfers/:receipt', (req, id, receipt) => ({
+      json: this.getReceipt(receipt, id),
+    }));
+    api('GET', 'receipts/:receipt', (req, receipt) => ({ json: this.getReceipt(receipt) }));
+    // The client appends `/search` to the search endpoint.
+    api('POST', 'escrow/assets/search(?:/search)?', this.searchEscrowedAssets);
+    api('GET', 'escrow/assets/:id', (req, id) => ({ json: this.getEscrowedAsset(id) }));
+
+    // Metering
+    api('GET', 'usage', this.getUsage);
+    api('GET', 'quota', (req) => ({ json: this.quotas.get(req.caller) ?? DEFAULT_QUOTA }));
+    api('PUT', 'quota', (req) => {
+      const quota = { ...(this.quotas.get(req.caller) ?? DEFAULT_QUOTA), ...req.json };
+      this.quotas.set(req.caller, quota);
+      return { json: quota };
+    });
+
+    return routes;
+  }
+
+  // Identities
+
+  private createIdentityRoute(req: MockRequest): MockReply {
+    const id = this.makeId('I') as IdentityId;
+    const identity = { id, createdAt: now(), tokenVerifiers: req.json?.tokenVerifiers ?? [] };
+    this.identities.set(id, identity);
+    return { status: 201, json: identity };
+  }
+
+  private getIdentity(id: string): PODIdentity {
+    const identity = this.identities.get(id as IdentityId);
+    if (!identity) throw notFound('identity', id);
+    return identity;
+  }
+
+  private updateIdentity(req: MockRequest, id: string): MockReply {
+    const identity = this.getIdentity(this.checkSelf(req, id));
+    const updated = { ...identity, ...req.json, id: identity.id, createdAt: identity.createdAt };
+    this.identities.set(identity.id as IdentityId, updated);
+    return { json: updated };
+  }
+
+  private deleteIdentity(req: MockRequest, id: string): MockReply {
+    this.identities.delete(this.checkSelf(req, id));
+    return { status: 204 };
+  }
+
+  private listGrantedPermissions(req: MockRequest, id: string): MockReply {
+    const identity = this.checkSelf(req, id);
+    const app = req.query.get('app');
+    const permissions = [...this.permissions.values()].filter(
+      (permission) =>
+        (!app || permission.appId === app) && this.isPermissionGranted(identity, permission.id),
+    );
+    return { json: paginateQuery(permissions, req.query) };
+  }
+
+  private grantPermission(req: MockRequest, id: string, permissionId: string): MockReply {
+    const identity = this.checkSelf(req, id);
+    const permission = this.permissions.get(permissionId);
+    if (!permission) throw notFound('permission', permissionId);
+    if (this.isPermissionGranted(identity, permission.id)) {
+      throw new MockApiError(409, `permission ${permission.id} is already granted`);
+    }
+
+    const app = this.getApp(permission.appId);
+    const resolve = (ref: GranteeRef) => {
+      if (ref === 'app') return app.id as IdentityId;
+      if (ref === 'participant') return identity;
+      return ref === 'everyone' ? undefined : ref;
+    };
+
+    const grants = permission.grants.map((spec) =>
+      this.insertGrant(identity, {
+        granter: resolve(spec.granter)!,
+        grantee: resolve(spec.grantee ?? 'app'),
+        condition: spec.condition,
+        capabilities: 'read',
+        permission: permission.id,
+      }),
+    );
+    if (!app.participants.includes(identity)) {
+      this.apps.set(app.id, { ...app, participants: [...app.participants, identity] });
+    }
+
+    return { status: 201, json: { grants } };
+  }
+
+  private getGrantedPermission(req: MockRequest, id: string, permissionId: string): MockReply {
+    const identity = this.checkSelf(req, id);
+    const permission = this.permissions.get(permissionId);
+    if (!permission || !this.isPermissionGranted(identity, permission.id)) {
+      throw notFound('granted permission', permissionId);
+    }
+
+    return { json: permission };
+  }
+
+  private revokePermission(req: MockRequest, id: string, permissionId: string): MockReply {
+    const identity = this.checkSelf(req, id);
+    if (!this.isPermissionGranted(identity, permissionId)) {
+      throw notFound('granted permission', permissionId);
+    }
+
+    for (const grant of [...this.grants.values()]) {
+      if (grant.permission === permissionId && this.grantCreators.get(grant.id) === identity) {
+        this.grants.delete(grant.id);
+        this.grantCreators.delete(grant.id);
+      }
+    }
+
+    const app = this.getApp(this.permissions.get(permissionId)!.appId);
+    const stillParticipating = [...this.permissions.values()].some(
+      (permission) =>
+        permission.appId === app.id && this.isPermissionGranted(identity, permission.id),
+    );
+    if (!stillParticipating) {
+      const participants = app.participants.filter((participant) => participant !== identity);
+      this.apps.set(app.id, { ...app, participants });
+    }
+
+    return { status: 204 };
+  }
+
+  private isPermissionGranted(identity: IdentityId, permission: ResourceId): boolean {
+    return [...this.grants.values()].some(
+      (grant) => grant.permission === permission && this.grantCreators.get(grant.id) === identity,
+    );
+  }
+
+  private listHeldTokens(req: MockRequest, id: string): MockReply {
+    const identity = this.getIdentity(id).id as IdentityId;
+    const balances: TokenBalance[] = [];
+    for (const [tokenId, token] of this.tokenStates) {
+      const balance = token.balances.get(identity) ?? 0;
+      if (balance > 0) balances.push({ id: tokenId as TokenBalance['id'], balance });
+    }
+
+    return { json: paginateQuery(balances, req.query) };
+  }
+
+  private getTokenBalance(req: MockRequest, id: string, tokenId: string): MockReply {
+    const identity = this.getIdentity(id).id as IdentityId;
+    const token = this.getToken(tokenId);
+    return {
+      json: { id: token.pod.id, balance: token.balances.get(identity) ?? 0 },
+    };
+  }
+
+  // Documents
+
+  private uploadDocument(req: MockRequest): MockReply {
+    const parts = parseMultipart(req.body, req.headers.get('content-type') ?? '');
+    const data = parts.get('data');
+    if (!data) throw new MockApiError(400, 'the upload has no `data` part');
+    const metadataText = new TextDecoder().decode(parts.get('metadata') ?? new Uint8Array());
+    const metadata = metadataText ? JSON.parse(metadataText) : undefined;
+    const document = this.insertDocument(req.caller, data, metadata);
+    return { status: 201, json: document };
+  }
+
+  private createUploadSession(req: MockRequest): MockReply {
+    const id = this.makeId('U');
+    const session = {
+      id,
+      creator: req.caller,
+      metadata: req.json?.metadata ?? null,
+      chunks: [],
+      offset: 0,
+    };
+    this.uploads.set(id, session);
+    return { status: 201, json: { id, offset: 0 } };
+  }
+
+  private getUploadSession(req: MockRequest, id: string): { id: string; offset: number } {
+    const session = this.uploads.get(id);
+    if (!session || session.creator !== req.caller) throw notFound('upload session', id);
+    return { id, offset: session.offset };
+  }
+
+  private uploadChunk(req: MockRequest, id: string): MockReply {
+    this.getUploadSession(req, id);
+    const session = this.uploads.get(id)!;
+    const range = /^bytes (\d+)-(\d+)\//.exec(req.headers.get('content-range') ?? '');
+    if (!range) throw new MockApiError(400, 'a `content-range` is required');
+    if (Number(range[1]) !== session.offset) {
+      throw new MockApiError(409, `the upload is committed up to byte ${session.offset}`);
+    }
+
+    session.chunks.push(req.body);
+    session.offset += req.body.length;
+    return { json: { id, offset: session.offset } };
+  }
+
+  private completeUpload(req: MockRequest, id: string): MockReply {
+    this.getUploadSession(req, id);
+    const session = this.uploads.get(id)!;
+    if (req.json?.size !== undefined && req.json.size !== session.offset) {
+      throw new MockApiError(
+        400,
+        `the upload has ${session.offset} bytes, not the declared ${req.json.size as number}`,
+      );
+    }
+
+    this.uploads.delete(id);
+    const metadata = session.metadata ?? undefined;
+    const details = req.json?.sha256
+      ? { ...metadata?.details, sha256: req.json.sha256 }
+      : metadata?.details;
+    const document = this.insertDocument(session.creator, concatBytes(session.chunks), {
+      ...metadata,
+      details,
+    });
+    return { status: 201, json: document };
+  }
+
+  private insertDocument(
+    creator: IdentityId,
+    data: Uint8Array,
+    metadata?: Partial<Pick<PODDocument, 'owner' | 'details' | 'originatingJob'>>,
+  ): PODDocument {
+    const id = this.makeId('D');
+    const document: PODDocument = {
+      id,
+      createdAt: now(),
+      creator,
+      owner: metadata?.owner ?? creator,
+      size: data.length,
+      details: metadata?.details ?? {},
+      originatingJob: metadata?.originatingJob,
+    };
+    this.documents.set(id, document);
+    this.documentData.set(id, data);
+    this.recordUsage(creator, 'uploadCount', 1);
+    this.recordUsage(creator, 'uploadSizeBytes', data.length);
+    return document;
+  }
+
+  private downloadDocument(req: MockRequest, id: string): MockReply {
+    const document = this.getDocument(req.caller, id);
+    const data = this.documentData.get(document.id)!;
+    this.recordAccess(document.id, req.caller);
+    const headers: Record<string, string> = {
+      'content-type': 'application/octet-stream',
+      etag: `"${document.details.sha256 ?? document.id}"`,
+    };
+
+    const range = /^bytes=(\d+)-(\d*)$/.exec(req.headers.get('range') ?? '');
+    if (!range) {
+      this.recordUsage(req.caller, 'downloadSizeBytes', data.length);
+      return { bytes: data, headers };
+    }
+
+    const start = Number(range[1]);
+    const end = Math.min(range[2] ? Number(range[2]) : data.length - 1, data.length - 1);
+    if (start >= data.length || end < start) {
+      throw new MockApiError(416, `the range ${range[0]} is not satisfiable`);
+    }
+
+    const bytes = data.subarray(start, end + 1);
+    this.recordUsage(req.caller, 'downloadSizeBytes', bytes.length);
+    headers['content-range'] = `bytes ${start}-${end}/${data.length}`;
+    return { status: 206, bytes, headers };
+  }
+
+  private recordAccess(document: ResourceId, accessor: IdentityId): void {
+    this.accessEvents.push({ createdAt: now(), document, accessor });
+    this.recordUsage(accessor, 'downloadCount', 1);
+  }
+
+  private searchDocuments(req: MockRequest): MockReply {
+    const { selectedByCondition, accessibleInContext, ...pageParams } = req.json ?? {};
+    const context = accessibleInContext && reviveContext(accessibleInContext);
+    const documents = [...this.documents.values()].filter((document) => {
+      if (selectedByCondition) {
+        if (document.owner !== req.caller && !context) return false;
+        if (!matches(selectedByCondition, { document })) return false;
+      }
+
+      return context
+        ? this.canAccess({ document }, context)
+        : selectedByCondition || this.canAccess({ document }, { accessor: req.caller });
+    });
+    return { json: paginate(documents, pageParams) };
+  }
+
+  private getDocument(caller: IdentityId, id: string): PODDocument {
+    const document = this.documents.get(id);
+    if (!document) throw notFound('document', id);
+    if (!this.canAccess({ document }, { accessor: caller })) {
+      throw forbidden(`access to document ${id} was denied`);
+    }
+
+    return document;
+  }
+
+  private updateDocument(req: MockRequest, id: string): MockReply {
+    const document = this.getOwned(this.documents, 'document', req.caller, id);
+    const { owner, details } = req.json ?? {};
+    const updated = {
+      ...document,
+      owner: owner ?? document.owner,
+      details: details ?? document.details,
+    };
+    this.documents.set(document.id, updated);
+    return { json: updated };
+  }
+
+  private deleteDocument(req: MockRequest, id: string): MockReply {
+    const document = this.getOwned(this.documents, 'document', req.caller, id);
+    this.documents.delete(document.id);
+    this.documentData.delete(document.id);
+    return { status: 204 };
+  }
+
+  private getDocumentHistory(req: MockRequest, id: string): MockReply {
+    const document = this.getOwned(this.documents, 'document', req.caller, id);
+    const { query } = req;
+    const accessor = query.get('accessor');
+    const after = query.has('after') ? Number(query.get('after')) : Number.NEGATIVE_INFINITY;
+    const before = query.has('before') ? Number(query.get('before')) : Number.POSITIVE_INFINITY;
+    const events = this.accessEvents.filter((event) => {
+      const time = Date.parse(event.createdAt);
+      return (
+        event.document === document.id &&
+        (!accessor || event.accessor === accessor) &&
+        time > after &&
+        time < before
+      );
+    });
+    return { json: paginateQuery(events, query) };
+  }
+
+  // Grants
+
+  private createGrant(req: MockRequest): MockReply {
+    const { grantee, condition, capabilities, delegating } = req.json ?? {};
+    if (condition) {
+      const issues = validateCondition(condition);
+      if (issues.length > 0) throw new MockApiError(400, new InvalidConditionError(issues).message);
+    }
+
+    const caps = new CapabilitySet(capabilities ?? 'read');
+    let granter = req.caller;
+    if (delegating) {
+      const delegated = this.grants.get(delegating);
+      if (!delegated) throw notFound('grant', delegating);
+      if (
+        delegated.grantee !== req.caller ||
+        !new CapabilitySet(delegated.capabilities).has('extend')
+      ) {
+        throw forbidden(`grant ${delegating} does not let ${req.caller} extend it`);
+      }
+
+      if (!caps.isSubsetOf(delegated.capabilities)) {
+        throw forbidden(`grant ${delegating} does not have the \`${caps}\` capabilities`);
+      }
+
+      granter = delegated.granter as IdentityId;
+    }
+
+    const grant = this.insertGrant(req.caller, {
+      granter,
+      grantee: grantee === 'everyone' ? undefined : grantee,
+      condition: condition ?? undefined,
+      capabilities: caps.toString(),
+      delegating,
+    });
+    return { status: 201, json: grant };
+  }
+
+  private insertGrant(creator: IdentityId, params: Except<PODGrant, 'id' | 'createdAt'>): PODGrant {
+    const grant = { ...params, id: this.makeId('G'), createdAt: now() };
+    this.grants.set(grant.id, grant);
+    this.grantCreators.set(grant.id, creator);
+    return grant;
+  }
+
+  private listGrants(req: MockRequest): MockReply {
+    const granter = req.query.get('granter');
+    const grantee = req.query.get('grantee');
+    const grants = [...this.grants.values()]
+      .filter((grant) => this.canSeeGrant(req.caller, grant))
+      .filter(
+        (grant) =>
+          (!granter || grant.granter === granter) && (!grantee || grant.grantee === grantee),
+      );
+    return { json: paginateQuery(grants, req.query) };
+  }
+
+  private getGrant(caller: IdentityId, id: string): PODGrant {
+    const grant = this.grants.get(id);
+    if (!grant || !this.canSeeGrant(caller, grant)) throw notFound('grant', id);
+    return grant;
+  }
+
+  private deleteGrant(req: MockRequest, id: string): MockReply {
+    const grant = this.grants.get(id);
+    if (!grant || !this.canSeeGrant(req.caller, grant)) throw notFound('grant', id);
+    if (grant.granter !== req.caller && this.grantCreators.get(id) !== req.caller) {
+      throw forbidden(`grant ${id} can be deleted only by its granter`);
+    }
+
+    this.grants.delete(id);
+    this.grantCreators.delete(id);
+    return { status: 204 };
+  }
+
+  private canSeeGrant(caller: IdentityId, grant: PODGrant): boolean {
+    return (
+      grant.granter === caller ||
+      grant.grantee === caller ||
+      this.grantCreators.get(grant.id) === caller
+    );
+  }
+
+  /**
+   * Decides whether an asset can be accessed in a context, i.e., whether the accessor owns it,
+   * or a grant from its owner or a held token selects it.
+   */
+  private canAccess(asset: MockAsset, context: MockContext): boolean {
+    const { accessor } = context;
+    const { owner, id } = asset.document ?? asset.database;
+    if (accessor !== undefined && accessor === owner) return true;
+
+    const fullContext = { accessTime: new Date(), ...context, ...asset };
+    const grantsAccess = [...this.grants.values()].some(
+      (grant) =>
+        grant.granter === owner &&
+        (grant.grantee === undefined || grant.grantee === accessor) &&
+        new CapabilitySet(grant.capabilities).has('read') &&
+        (!grant.condition || matches(grant.condition, fullContext)),
+    );
+    if (grantsAccess || accessor === undefined) return grantsAccess;
+
+    return [...this.tokenStates.values()].some(
+      (token) =>
+        token.assets.has(id) &&
+        (token.balances.get(accessor) ?? 0) > 0 &&
+        new CapabilitySet(token.pod.grant.capabilities).has('read') &&
+        (!token.pod.grant.condition || matches(token.pod.grant.condition, fullContext)),
+    );
+  }
+
+  // Apps, permissions, and clients
+
+  private createApp(req: MockRequest): MockReply {
+    const { identity, ...params } = req.json ?? {};
+    const id = this.makeId('A');
+    const createdAt = now();
+    this.identities.set(id as IdentityId, {
+      id,
+      createdAt,
+      tokenVerifiers: identity?.tokenVerifiers ?? [],
+    });
+    const app: PODApp = {
+      admins: [req.caller],
+      allowUserUploads: false,
+      collaborators: [],
+      homepageUrl: '',
+      inviteOnly: false,
+      invites: [],
+      logoUrl: '',
+      name: '',
+      organization: '',
+      participants: [],
+      published: false,
+      shortDescription: '',
+      termsAndConditions: '',
+      privacyPolicy: '',
+      ...params,
+      id,
+      createdAt,
+      owner: req.caller,
+    };
+    this.apps.set(id, app);
+    return { status: 201, json: app };
+  }
+
+  private listApps(req: MockRequest): MockReply {
+    const owner = req.query.get('owner');
+    const participation = req.query.get('participation');
+    const apps = [...this.apps.values()].filter(
+      (app) =>
+        (!owner || app.owner === owner) &&
+        (participation !== 'joined' || app.participants.includes(req.caller)) &&
+        (participation !== 'invited' || (app.invites ?? []).includes(req.caller)),
+    );
+    return { json: paginateQuery(apps, req.query) };
+  }
+
+  private getApp(id: string): PODApp {
+    const app = this.apps.get(id);
+    if (!app) throw notFound('app', id);
+    return app;
+  }
+
+  private updateApp(req: MockRequest, id: string): MockReply {
+    const app = this.getAdministeredApp(req.caller, id);
+    const updated = { ...app, ...req.json, id: app.id, createdAt: app.createdAt };
+    this.apps.set(app.id, updated);
+    return { json: updated };
+  }
+
+  private deleteApp(req: MockRequest, id: string): MockReply {
+    const app = this.getOwned(this.apps, 'app', req.caller, id);
+    this.apps.delete(app.id);
+    return { status: 204 };
+  }
+
+  private getAdministeredApp(caller: IdentityId, id: string): PODApp {
+    const app = this.getApp(id);
+    if (app.owner !== caller && !app.admins.includes(caller)) {
+      throw forbidden(`${caller} is not an admin of app ${id}`);
+    }
+
+    return app;
+  }
+
+  private createPermission(req: MockRequest, appId: string): MockReply {
+    const app = this.getAdministeredApp(req.caller, appId);
+    const permission = { ...req.json, id: this.makeId('P'), createdAt: now(), appId: app.id };
+    this.permissions.set(permission.id, permission);
+    return { status: 201, json: permission };
+  }
+
+  private getPermission(appId: string, id: string): PODPermission {
+    const permission = this.permissions.get(id);
+    if (!permission || permission.appId !== appId) throw notFound('permission', id);
+    return permission;
+  }
+
+  private deletePermission(req: MockRequest, appId: string, id: string): MockReply {
+    this.getAdministeredApp(req.caller, appId);
+    this.permissions.delete(this.getPermission(appId, id).id);
+    return { status: 204 };
+  }
+
+  private createClient(req: MockRequest, appId: string): MockReply {
+    const app = this.getAdministeredApp(req.caller, appId);
+    const client = {
+      ...req.json,
+      id: this.makeId('C'),
+      createdAt: now(),
+      creator: req.caller,
+      appId: app.id,
+    };
+    this.clients.set(client.id, client);
+    return { status: 201, json: client };
+  }
+
+  private listClients(req: MockRequest, appId: string): MockReply {
+    const creator = req.query.get('creator');
+    const clients = [...this.clients.values()].filter(
+      (client) => client.appId === appId && (!creator || client.creator === creator),
+    );
+    return { json: paginateQuery(clients, req.query) };
+  }
+
+  private getClient(appId: string, id: string): PODClient {
+    const client = this.clients.get(id);
+    if (!client || client.appId !== appId) throw notFound('client', id);
+    return client;
+  }
+
+  private updateClient(req: MockRequest, appId: string, id: string): MockReply {
+    this.getAdministeredApp(req.caller, appId);
+    const client = this.getClient(appId, id);
+    const updated = { ...client, ...req.json, id: client.id, createdAt: client.createdAt };
+    this.clients.set(client.id, updated);
+    return { json: updated };
+  }
+
+  private deleteClient(req: MockRequest, appId: string, id: string): MockReply {
+    this.getAdministeredApp(req.caller, appId);
+    this.clients.delete(this.getClient(appId, id).id);
+    return { status: 204 };
+  }
+
+  // Compute
+
+  private submitJob(req: MockRequest): MockReply {
+    const spec: JobSpec = req.json;
+    if (!spec?.name || !spec.image || !Array.isArray(spec.cmd)) {
+      throw new MockApiError(400, 'a job needs a `name`, `image`, and `cmd`');
+    }
+
+    const pod: PODJob = {
+      id: this.makeId('J') as PODJob['id'],
+      createdAt: now(),
+      spec,
+      io: { accessedDocuments: [], outputDocuments: [] },
+      status: { phase: JobPhase.PENDING },
+    };
+    this.jobs.set(pod.id, { pod, submitter: req.caller, logs: [], submittedAt: Date.now() });
+    return { status: 201, json: pod };
+  }
+
+  private listJobs(req: MockRequest): MockReply {
+    const submitter = req.query.get('submitter');
+    const inputOwner = req.query.get('input-owner');
+    const jobs = [...this.jobs.values()]
+      .filter(
+        (job) =>
+          (job.submitter === req.caller || (!submitter && inputOwner)) &&
+          (!submitter || job.submitter === submitter) &&
+          (!inputOwner ||
+            (job.pod.spec.inputDocuments ?? []).some(
+              ({ id }) => this.documents.get(id)?.owner === inputOwner,
+            )),
+      )
+      .map(({ pod }) => pod);
+    return { json: paginateQuery(jobs, req.query) };
+  }
+
+  private getJob(caller: IdentityId, id: string): MockJobState {
+    const job = this.jobs.get(id);
+    if (!job || job.submitter !== caller) throw notFound('job', id);
+    return job;
+  }
+
+  /** Reports the status of a job, after advancing it by one phase. */
+  private async getJobStatus(req: MockRequest, id: string): Promise<MockReply> {
+    const job = this.getJob(req.caller, id);
+    const phase = job.pod.status?.phase;
+    if (phase === JobPhase.PENDING) {
+      this.setJobStatus(job, { phase: JobPhase.RUNNING });
+      job.run = this.startJob(job);
+    } else if (phase === JobPhase.RUNNING) {
+      await this.finishJob(job, await job.run!);
+    }
+
+    return { json: { id: job.pod.id, createdAt: job.pod.createdAt, status: job.pod.status } };
+  }
+
+  private async startJob(job: MockJobState): Promise<MockJobResult> {
+    const { spec } = job.pod;
+    const inputs = new Map<string, Uint8Array>();
+    for (const { id, mountPath } of spec.inputDocuments ?? []) {
+      const document = this.documents.get(id);
+      const context = { accessor: job.submitter, job: spec };
+      if (!document || !this.canAccess({ document }, context)) {
+        return { succeeded: false, message: `access to input document ${id} was denied` };
+      }
+
+      this.recordAccess(document.id, job.submitter);
+      inputs.set(mountPath, this.documentData.get(document.id)!);
+    }
+
+    job.pod = {
+      ...job.pod,
+      io: { ...job.pod.io, accessedDocuments: (spec.inputDocuments ?? []).map(({ id }) => id) },
+    };
+    try {
+      return await this.runJob({ spec, submitter: job.submitter, inputs });
+    } catch (error: any) {
+      return { succeeded: false, message: String(error?.message ?? error) };
+    }
+  }
+
+  private async finishJob(job: MockJobState, result: MockJobResult): Promise<void> {
+    if (job.pod.status?.phase !== JobPhase.RUNNING) return;
+    job.logs = result.logs ?? [];
+    const succeeded = result.succeeded ?? true;
+    if (succeeded) {
+      const outputDocuments = (job.pod.spec.outputDocuments ?? []).map(({ mountPath, owner }) => {
+        const output = result.outputs?.[mountPath] ?? new Uint8Array();
+        const data = typeof output === 'string' ? new TextEncoder().encode(output) : output;
+        const { id } = this.insertDocument(job.submitter, data, {
+          owner: owner ?? job.submitter,
+          originatingJob: job.pod.id,
+        });
+        return { mountPath, id: id as any };
+      });
+      job.pod = { ...job.pod, io: { ...job.pod.io, outputDocuments } };
+    }
+
+    this.recordUsage(job.submitter, 'computeMsec', Date.now() - job.submittedAt);
+    this.setJobStatus(job, {
+      phase: succeeded ? JobPhase.SUCCEEDED : JobPhase.FAILED,
+      message: result.message,
+    });
+  }
+
+  private setJobStatus(job: MockJobState, status: NonNullable<PODJob['status']>): void {
+    job.pod = { ...job.pod, status };
+  }
+
+  private getJobLogs(req: MockRequest, id: string): MockReply {
+    const job = this.getJob(req.caller, id);
+    const tail = req.query.has('tail') ? Number(req.query.get('tail')) : job.logs.length;
+    const lines = job.logs.slice(Math.max(job.logs.length - tail, 0));
+    const text = lines.map((line) => `${line}\n`).join('');
+    return { bytes: new TextEncoder().encode(text), headers: { 'content-type': 'text/plain' } };
+  }
+
+  private terminateJob(req: MockRequest, id: string): MockReply {
+    const job = this.getJob(req.caller, id);
+    const phase = job.pod.status?.phase;
+    if (phase === JobPhase.PENDING || phase === JobPhase.RUNNING) {
+      this.setJobStatus(job, { phase: JobPhase.FAILED, message: 'the job was terminated' });
+    }
+
+    return { status: 204 };
+  }
+
+  // Databases
+
+  private createDatabase(req: MockRequest): MockReply {
+    const id = this.makeId('DB');
+    const database = {
+      name: '',
+      ...req.json,
+      id,
+      createdAt: now(),
+      creator: req.caller,
+      owner: req.caller,
+    };
+    this.databases.set(id, database);
+    this.tables.set(id, new Map());
+    return { status: 201, json: database };
+  }
+
+  private listDatabases(req: MockRequest): MockReply {
+    const owner = req.query.get('owner');
+    const name = req.query.get('name');
+    const databases = [...this.databases.values()].filter(
+      (database) =>
+        this.canAccess({ database }, { accessor: req.caller }) &&
+        (!owner || database.owner === owner) &&
+        (!name || database.name === name),
+    );
+    return { json: paginateQuery(databases, req.query) };
+  }
+
+  private getDatabase(caller: IdentityId, id: string): PODDatabase {
+    const database = this.databases.get(id);
+    if (!database) throw notFound('database', id);
+    if (!this.canAccess({ database }, { accessor: caller })) {
+      throw forbidden(`access to database ${id} was denied`);
+    }
+
+    return database;
+  }
+
+  private updateDatabase(req: MockRequest, id: string): MockReply {
+    const database = this.getOwned(this.databases, 'database', req.caller, id);
+    const updated = { ...database, ...req.json, id: database.id, createdAt: database.createdAt };
+    this.databases.set(database.id, updated);
+    return { json: updated };
+  }
+
+  private deleteDatabase(req: MockRequest, id: string): MockReply {
+    const database = this.getOwned(this.databases, 'database', req.caller, id);
+    this.databases.delete(database.id);
+    this.tables.delete(database.id);
+    return { status: 204 };
+  }
+
+  private queryDatabase(req: MockRequest, id: string): MockReply {
+    const database = this.getDatabase(req.caller, id);
+    const { sql, params = {} } = req.json ?? {};
+    const tables = this.tables.get(database.id)!;
+    return { json: runQuery(tables, String(sql ?? ''), params) };
+  }
+
+  private insertRows(req: MockRequest, id: string): MockReply {
+    const database = this.getOwned(this.databases, 'database', req.caller, id);
+    const { tableName, rows = [] } = req.json ?? {};
+    const table = this.tables.get(database.id)!.get(tableName);
+    if (!table) throw new MockApiError(400, `no such table: ${String(tableName)}`);
+    table.push(...rows);
+    return { json: rows };
+  }
+
+  // Tokenization
+
+  private mintToken(req: MockRequest): MockReply {
+    const { name, grant, consumesAssets = false, transferability } = req.json ?? {};
+    const supply = transferability?.parcel?.supply;
+    if (!Number.isInteger(supply) || supply <= 0) {
+      throw new MockApiError(400, 'the mock gateway supports only tokens with a Parcel supply');
+    }
+
+    if (grant?.condition) {
+      const issues = validateCondition(grant.condition);
+      if (issues.length > 0) throw new MockApiError(400, new InvalidConditionError(issues).message);
+    }
+
+    const pod: PODToken = {
+      id: this.makeId('T'),
+      createdAt: now(),
+      creator: req.caller,
+      name,
+      grant: { condition: grant?.condition ?? null, capabilities: grant?.capabilities ?? 'read' },
+      consumesAssets,
+      transferability,
+    };
+    this.tokenStates.set(pod.id, {
+      pod,
+      balances: new Map([[req.caller, supply]]),
+      assets: new Set(),
+    });
+    return { status: 201, json: pod };
+  }
+
+  private getToken(id: string): MockTokenState {
+    const token = this.tokenStates.get(id);
+    if (!token) throw notFound('token', id);
+    return token;
+  }
+
+  private searchTokens(req: MockRequest): MockReply {
+    const { heldBy, containsAsset, ...pageParams } = req.json ?? {};
+    const context = containsAsset?.accessibleInContext;
+    const tokens = [...this.tokenStates.values()]
+      .filter(
+        (token) =>
+          (!heldBy || (token.balances.get(heldBy) ?? 0) > 0) &&
+          (!containsAsset ||
+            [...token.assets].some((id) => {
+              const asset = this.assetContext(id);
+              return (
+                asset &&
+                (!containsAsset.selectedByCondition ||
+                  matches(containsAsset.selectedByCondition, asset)) &&
+                (!context || this.canAccess(asset, reviveContext(context)))
+              );
+            })),
+      )
+      .map(({ pod }) => pod);
+    return { json: paginate(tokens, pageParams) };
+  }
+
+  private deleteToken(req: MockRequest, id: string): MockReply {
+    const token = this.getHeldToken(req.caller, id);
+    this.tokenStates.delete(token.pod.id);
+    return { status: 204 };
+  }
+
+  /** @returns the token, if the caller holds its entire supply. */
+  private getHeldToken(caller: IdentityId, id: string): MockTokenState {
+    const token = this.getToken(id);
+    const { supply } = (token.pod.transferability as { parcel: { supply: number } }).parcel;
+    if (token.balances.get(caller) !== supply) {
+      throw forbidden(`${caller} does not hold the entire supply of token ${id}`);
+    }
+
+    return token;
+  }
+
+  private addTokenAsset(req: MockRequest, id: string, assetId: string): MockReply {
+    const token = this.getToken(id);
+    const asset = this.getEscrowedAsset(assetId);
+    const consumer = [...this.tokenStates.values()].find(
+      (other) => other.pod.consumesAssets && other.assets.has(asset.id),
+    );
+    if (consumer) {
+      throw new MockApiError(409, `asset ${assetId} was consumed by token ${consumer.pod.id}`);
+    }
+
+    token.assets.add(asset.id);
+    return { json: { asset: asset.id, token: token.pod.id, consumed: token.pod.consumesAssets } };
+  }
+
+  private removeTokenAsset(req: MockRequest, id: string, assetId: string): MockReply {
+    const token = this.getHeldToken(req.caller, id);
+    if (!token.assets.delete(assetId)) throw notFound('token asset', assetId);
+    return { status: 204 };
+  }
+
+  private transferToken(req: MockRequest, id: string): MockReply {
+    const token = this.getToken(id);
+    const { recipient, amount }: { recipient: IdentityId; amount: number } = req.json ?? {};
+    this.getIdentity(recipient);
+    const balance = token.balances.get(req.caller) ?? 0;
+    if (!Number.isInteger(amount) || amount < 0 || amount > balance) {
+      throw new MockApiError(400, `cannot transfer ${String(amount)} of a balance of ${balance}`);
+    }
+
+    token.balances.set(req.caller, balance - amount);
+    token.balances.set(recipient, (token.balances.get(recipient) ?? 0) + amount);
+    const receipt: PODTransferReceipt = {
+      id: this.makeId('R') as PODTransferReceipt['id'],
+      completedAt: now(),
+      token: token.pod.id as PODTransferReceipt['token'],
+      amount,
+      sender: req.caller,
+      recipient,
+    };
+    this.receipts.set(receipt.id, receipt);
+    return { json: receipt };
+  }
+
+  private listTransfers(req: MockRequest, id: string): MockReply {
+    const token = this.getToken(id);
+    const { query } = req;
+    const sender = query.get('sender');
+    const recipient = query.get('recipient');
+    const after = query.has('after') ? Number(query.get('after')) : Number.NEGATIVE_INFINITY;
+    const before = query.has('before') ? Number(query.get('before')) : Number.POSITIVE_INFINITY;
+    const receipts = [...this.receipts.values()].filter((receipt) => {
+      const time = Date.parse(receipt.completedAt);
+      return (
+        receipt.token === token.pod.id &&
+        (!sender || receipt.sender === sender) &&
+        (!recipient || receipt.recipient === recipient) &&
+        time > after &&
+        time < before
+      );
+    });
+    return { json: paginateQuery(receipts, query) };
+  }
+
+  private getReceipt(id: string, token?: string): PODTransferReceipt {
+    const receipt = this.receipts.get(id);
+    if (!receipt || (token && receipt.token !== token)) throw notFound('transfer receipt', id);
+    return receipt;
+  }
+
+  /** @returns the condition context of a document or database. */
+  private assetContext(id: ResourceId): MockAsset | undefined {
+    const document = this.documents.get(id);
+    if (document) return { document };
+    const database = this.databases.get(id);
+    return database && { database };
+  }
+
+  private getEscrowedAsset(id: string): EscrowedAsset {
+    const asset = this.assetContext(id);
+    if (!asset || (asset.document ?? asset.database).owner !== 'escrow') {
+      throw notFound('escrowed asset', id);
+    }
+
+    const { creator } = asset.document ?? asset.database;
+    return {
+      type: asset.document ? 'document' : 'database',
+      id: id as EscrowedAsset['id'],
+      cliamant: creator as IdentityId,
+    };
+  }
+
+  private searchEscrowedAssets(req: MockRequest): MockReply {
+    const { token, selectedByCondition, accessibleInContext, ...pageParams } = req.json ?? {};
+    const assets = [...this.documents.keys(), ...this.databases.keys()]
+      .filter((id) => {
+        const asset = this.assetContext(id)!;
+        return (
+          (asset.document ?? asset.database)!.owner === 'escrow' &&
+          (!token || this.tokenStates.get(token)?.assets.has(id)) &&
+          (!selectedByCondition || matches(selectedByCondition, asset)) &&
+          (!accessibleInContext || this.canAccess(asset, reviveContext(accessibleInContext)))
+        );
+      })
+      .map((id) => this.getEscrowedAsset(id));
+    return { json: paginate(assets, pageParams) };
+  }
+
+  // Metering
+
+  private meter(caller: IdentityId, method: string, status: number): void {
+    switch (method) {
+      case 'GET': {
+        this.recordUsage(caller, 'readCount', 1);
+        break;
+      }
+
+      case 'PUT': {
+        this.recordUsage(caller, 'writeCount', 1);
+        break;
+      }
+
+      case 'DELETE': {
+        this.recordUsage(caller, 'deleteCount', 1);
+        break;
+      }
+
+      default:
+        if (status === 201) this.recordUsage(caller, 'createCount', 1);
+        else this.recordUsage(caller, 'readCount', 1);
+    }
+  }
+
+  private recordUsage(identity: IdentityId, field: keyof PODMeteringReport, amount: number): void {
+    this.usage.push({ identity, time: Date.now(), field, amount });
+  }
+
+  private getUsage(req: MockRequest): MockReply {
+    const { query } = req;
+    const after = query.has('after') ? Number(query.get('after')) : Number.NEGATIVE_INFINITY;
+    const before = query.has('before') ? Number(query.get('before')) : Number.POSITIVE_INFINITY;
+    const report: Record<keyof PODMeteringReport, number> = {
+      createCount: 0,
+      readCount: 0,
+      writeCount: 0,
+      deleteCount: 0,
+      uploadCount: 0,
+      downloadCount: 0,
+      uploadSizeBytes: 0,
+      downloadSizeBytes: 0,
+      computeMsec: 0,
+    };
+    for (const { identity, time, field, amount } of this.usage) {
+      if (identity === req.caller && time > after && time < before) report[field] += amount;
+    }
+
+    return { json: report };
+  }
+
+  // Helpers
+
+  private makeId(prefix: string): ResourceId {
+    return `${prefix}${this.nextId++}`!;
+  }
+
+  private authenticate(authorization: string | null): IdentityId {
+    const token = /^Bearer (.+)$/.exec(authorization ?? '')?.[1];
+    const identity = token === undefined ? undefined : this.tokens.get(token);
+    if (!identity || !this.identities.has(identity)) {
+      throw new MockApiError(401, 'the request has no valid token');
+    }
+
+    return identity;
+  }
+
+  /** @returns the identity, if it is the caller. */
+  private checkSelf(req: MockRequest, id: string): IdentityId {
+    const identity = id === 'me' ? req.caller : (this.getIdentity(id).id as IdentityId);
+    if (identity !== req.caller) throw forbidden(`${req.caller} cannot act as ${identity}`);
+    return identity;
+  }
+
+  private getOwned<T extends { owner: ResourceId }>(
+    resources: Map<ResourceId, T>,
+    kind: string,
+    caller: IdentityId,
+    id: string,
+  ): T {
+    const resource = resources.get(id);
+    if (!resource) throw notFound(kind, id);
+    if (resource.owner !== caller) throw forbidden(`${kind} ${id} is not owned by ${caller}`);
+    return resource;
+  }
+}
+
+function now(): string {
+  return new Date().toISOString();
+}
+
+function notFound(kind: string, id: string): MockApiError {
+  return new MockApiError(404, `${kind} ${id} not found`);
+}
+
+function forbidden(message: string): MockApiError {
+  return new MockApiError(403, message);
+}
+
+function makeResponse({ status = 200, json, bytes, headers = {} }: MockReply): Response {
+  if (status === 204) return new Response(null, { status, headers });
+  if (bytes) {
+    return new Response(bytes, {
+      status,
+      headers: { ...headers, 'content-length': String(bytes.length) },
+    });
+  }
+
+  return new Response(JSON.stringify(json ?? null), {
+    status,
+    headers: { 'content-type': 'application/json', ...headers },
+  });
+}
+
+function paginate<T>(items: T[], params: { pageSize?: number; pageToken?: string }): Page<T> {
+  const start = Number(params.pageToken ?? 0);
+  const end = start + (params.pageSize ?? DEFAULT_PAGE_SIZE);
+  return { results: items.slice(start, end), nextPageToken: end < items.length ? String(end) : '' };
+}
+
+function paginateQuery<T>(items: T[], query: URLSearchParams): Page<T> {
+  const pageSize = query.get('page-size');
+  return paginate(items, {
+    pageSize: pageSize ? Number(pageSize) : undefined,
+    pageToken: query.get('page-token') ?? undefined,
+  });
+}
+
+function matches(condition: Condition, context: MockContext): boolean {
+  try {
+    return evaluateCondition(condition, context as ConditionContext).result;
+  } catch {
+    return false;
+  }
+}
+
+/** Revives the `accessTime` of an `AccessContext` that was sent as JSON. */
+function reviveContext(context: any): MockContext {
+  return context.accessTime ? { ...context, accessTime: new Date(context.accessTime) } : context;
+}
+
+/** A `form-data` stream, as uploaded from Node, which `Request.arrayBuffer` cannot read. */
+type NodeFormData = NodeJS.ReadableStream & { getBoundary: () => string };
+
+function isNodeFormData(body: unknown): body is NodeFormData {
+  return typeof (body as Partial<NodeFormData> | null)?.getBoundary === 'function';
+}
+
+async function readBody(request: Request): Promise<Uint8Array> {
+  const { body } = request;
+  if (!isNodeFormData(body)) return new Uint8Array(await request.arrayBuffer());
+
+  return new Promise((resolve, reject) => {
+    const chunks: Uint8Array[] = [];
+    body.on('data', (chunk: string | Buffer) => {
+      chunks.push(typeof chunk === 'string' ? Buffer.from(chunk) : chunk);
+    });
+    body.on('end', () => {
+      resolve(concatBytes(chunks));
+    });
+    body.on('error', reject);
+    body.resume();
+  });
+}
+
+/** Parses a `multipart/form-data` body into its parts' data, by name. */
+function parseMultipart(body: Uint8Array, contentType: string): Map<string, Uint8Array> {
+  const boundary = /boundary=(?:"([^"]+)"|([^;]+))/.exec(contentType);
+  if (!boundary) throw new MockApiError(400, 'the upload is not `multipart/form-data`');
+  const delimiter = new TextEncoder().encode(`--${boundary[1] ?? boundary[2]}`);
+  const headerEnd = new TextEncoder().encode('\r\n\r\n');
+
+  const parts = new Map<string, Uint8Array>();
+  let start = indexOfBytes(body, delimiter, 0);
+  while (start >= 0) {
+    const partStart = start + delimiter.length + 2; // After the delimiter and its CRLF.
+    const next = indexOfBytes(body, delimiter, partStart);
+    if (next < 0) break;
+    const part = body.subarray(partStart, next - 2); // Before the CRLF preceding the delimiter.
+    const contentStart = indexOfBytes(part, headerEnd, 0);
+    const headers = new TextDecoder().decode(part.subarray(0, contentStart));
+    const name = /name="([^"]*)"/.exec(headers)?.[1];
+    if (name !== undefined) parts.set(name, part.subarray(contentStart + headerEnd.length));
+    start = next;
+  }
+
+  return parts;
+}
+
+function indexOfBytes(haystack: Uint8Array, needle: Uint8Array, from: number): number {
+  for (let i = from; i <= haystack.length - needle.length; i++) {
+    if (needle.every((byte, j) => haystack[i + j] === byte)) return i;
+  }
+
+  return -1;
+}
+
+function concatBytes(chunks: Uint8Array[]): Uint8Array {
+  let length = 0;
+  for (const chunk of chunks) length += chunk.length;
+  const joined = new Uint8Array(length);
+  let pos = 0;
+  for (const chunk of chunks) {
+    joined.set(chunk, pos);
+    pos += chunk.length;
+  }
+
+  return joined;
+}
+
+/**
+ * Runs the few kinds of SQL statements that a `MockGateway` understands.
+ * @throws `MockApiError` if the statement is not understood or fails.
+ */
+function runQuery(tables: Map<string, Row[]>, sql: string, params: Record<string, unknown>): Row[] {
+  const statement = sql.trim().replace(/;$/, '').trim();
+  let match = /^create table (if not exists )?(\w+)\s*\(.*\)$/is.exec(statement);
+  if (match) {
+    const [, ifNotExists, name] = match;
+    if (tables.has(name) && !ifNotExists) {
+      throw new MockApiError(400, `table ${name} already exists`);
+    }
+
+    if (!tables.has(name)) tables.set(name, []);
+    return [];
+  }
+
+  match = /^drop table (if exists )?(\w+)$/i.exec(statement);
+  if (match) {
+    const [, ifExists, name] = match;
+    if (!tables.delete(name) && !ifExists) throw new MockApiError(400, `no such table: ${name}`);
+    return [];
+  }
+
+  match = /^select \* from (\w+)(?: where (.+))?$/is.exec(statement);
+  if (match) {
+    const [, name, where] = match;
+    const rows = tables.get(name);
+    if (!rows) throw new MockApiError(400, `no such table: ${name}`);
+    const clauses = where
+      ? where.split(/\s+and\s+/i).map((clause) => parseEquality(clause, params))
+      : [];
+    return rows.filter((row) =>
+      clauses.every(([column, value]) => (row as Record<string, unknown>)[column] === value),
+    );
+  }
+
+  throw new MockApiError(400, `the mock gateway does not support the query \`${statement}\``);
+}
+
+/** Parses `column = value`, where the value is a parameter like `$name`, or a literal. */
+function parseEquality(clause: string, params: Record<string, unknown>): [string, unknown] {
+  const match = /^(\w+)\s*=\s*(\$\w+|'(?:[^']|'')*'|-?\d+(?:\.\d+)?)$/.exec(clause.trim());
+  if (!match) throw new MockApiError(400, `the mock gateway does not support \`WHERE ${clause}\``);
+  const [, column, value] = match;
+  if (value.startsWith('$')) {
+    const name = value.slice(1);
+    if (!(value in params) && !(name in params)) {
+      throw new MockApiError(400, `missing query parameter ${value}`);
+    }
+
+    return [column, value in params ? params[value] : params[name]];
+  }
+
+  return [column, value.startsWith("'") ? value.slice(1, -1).replace(/''/g, "'") : Number(value)];
+}
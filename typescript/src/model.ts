@@ -57,3 +57,99 @@ export function makePage<Pod extends PODModel, M extends Model>(
     nextPageToken: podPage.nextPageToken,
   };
 }
+
+export type PaginateOptions = Partial<{
+  /** Stop after yielding this many items. */
+  maxItems: number;
+
+  /** Stops iteration (with an `AbortError`) before the next page is fetched. */
+  signal: AbortSignal;
+}>;
+
+/** Thrown by an operation (e.g., a paginating iterator) whose `signal` was aborted. */
+export class AbortError extends Error {
+  name = 'AbortError';
+
+  public constructor(message = 'The operation was aborted.') {
+    super(message);
+  }
+}
+
+/**
+ * Lazily iterates over every item of a paginated listing by following `nextPageToken`
+ * until the server returns an empty token, or `maxItems` have been yielded.
+ * Pages are fetched on demand, so breaking out of the loop stops further requests.
+ */
+export async function* paginate<T, P extends PageParams>(
+  fetchPage: (params: P) => Promise<Page<T>>,
+  params: P,
+  options?: PaginateOptions,
+): AsyncGenerator<T, void, undefined> {
+  const maxItems = options?.maxItems ?? Number.POSITIVE_INFINITY;
+  let { pageToken } = params;
+  let numYielded = 0;
+  while (numYielded < maxItems) {
+    if (options?.signal?.aborted) throw new AbortError();
+    const page = await fetchPage({ ...params, pageToken });
+    for (const item of page.results) {
+      if (numYielded >= maxItems) return;
+      if (options?.signal?.aborted) throw new AbortError();
+      yield item;
+      numYielded++;
+    }
+
+    if (!page.nextPageToken) return;
+    pageToken = page.nextPageToken;
+  }
+}
+
+/** Resolves after `ms` milliseconds, or rejects with an `AbortError` if `signal` is aborted. */
+export async function sleep(ms: number, signal?: AbortSignal | null): Promise<void> {
+  return new Promise((resolve, reject) => {
+    if (signal?.aborted) {
+      reject(new AbortError());
+      return;
+    }
+
+    const onAbort = () => {
+      clearTimeout(timeout);
+      reject(new AbortError());
+    };
+
+    const timeout = setTimeout(() => {
+      signal?.removeEventListener('abort', onAbort);
+      resolve();
+    }, ms);
+    signal?.addEventListener('abort', onAbort);
+  });
+}
+
+/**
+ * Maps `items` using the async function `fn`, running at most `concurrency` calls at a time.
+ * The results are in the order of `items`. Rejects with the first error, after which no more
+ * calls are started.
+ */
+export async function mapConcurrently<T, U>(
+  items: readonly T[],
+  concurrency: number,
+  fn: (item: T) => Promise<U>,
+): Promise<U[]> {
+  const results: U[] = Array.from({ length: items.length });
+  let nextIndex = 0;
+  let failed = false;
+  const worker = async () => {
+    while (nextIndex < items.length && !failed) {
+      const index = nextIndex++;
+      try {
+        results[index] = await fn(items[index]);
+      } catch (error: unknown) {
+        failed = true;
+        throw error;
+      }
+    }
+  };
+
+  const numWorkers = Math.max(Math.min(concurrency, items.length), 1);
+  await Promise.all(Array.from({ length: numWorkers }, worker));
+  return results;
+}
@@ -0,0 +1,295 @@
+import AbortController from 'abort-controller';
+import EventEmitter from 'eventemitter3';
+
+import type { InputDocumentSpec, Job, JobSpec, WaitForJobOptions } from './compute.js';
+import { ComputeImpl, JobPhase } from './compute.js';
+import type { HttpClient } from './http.js';
+
+/** An output document of an upstream step that is mounted as an input of a downstream step. */
+export type PipelineStepInput = {
+  /** The name of the upstream step. */
+  step: string;
+
+  /** The `mountPath` of the output document, as given in the upstream step's `outputDocuments`. */
+  output: string;
+
+  /** Path where the document will be mounted inside the job. Interpreted relative to `/parcel/data/in`. */
+  mountPath: string;
+};
+
+/** A job in a pipeline. */
+export type PipelineStep = {
+  /** The name of the step, which must be unique within the pipeline. */
+  name: string;
+
+  /**
+   * The job to run. Its `inputDocuments` are extended with the outputs of upstream steps
+   * given by `inputs`.
+   */
+  spec: JobSpec;
+
+  /** Output documents of upstream steps to mount into the job. */
+  inputs?: PipelineStepInput[];
+
+  /** The names of steps that must succeed before this one is run, without using their outputs. */
+  dependsOn?: string[];
+};
+
+export type PipelineStepStatus = 'pending' | 'running' | 'succeeded' | 'failed' | 'skipped';
+
+export type PipelineStepResult = {
+  name: string;
+  status: PipelineStepStatus;
+
+  /** The submitted job. Once the step has finished, this is the finished job. */
+  job?: Job;
+
+  /** Why the step failed or was skipped. */
+  error?: Error;
+};
+
+export type PipelineResult = {
+  /** Whether every step succeeded. */
+  succeeded: boolean;
+
+  /** The results of the steps, in the order in which they were declared. */
+  steps: PipelineStepResult[];
+};
+
+export type RunPipelineOptions = WaitForJobOptions &
+  Partial<{
+    /** The maximum number of jobs to run at once. By default, all runnable jobs are run. */
+    concurrency: number;
+  }>;
+
+/** Thrown when a pipeline's steps reference unknown steps or outputs, or form a cycle. */
+export class PipelineError extends Error {
+  name = 'PipelineError';
+
+  public constructor(message: string) {
+    super(message);
+  }
+}
+
+/**
+ * A `PipelineRun` is the result of calling `parcel.runPipeline`. Steps are submitted as jobs
+ * once all of their upstream steps have succeeded, so independent steps run concurrently.
+ * When a step fails, the steps downstream of it are skipped, but the others keep running.
+ *
+ * Emits a `step` event with a `PipelineStepResult` whenever a step changes status, and when
+ * a running step's job has been submitted.
+ *
+ * When all steps have finished or been skipped, the `finish` event is emitted with the
+ * `PipelineResult` as its argument. If running the pipeline fails unexpectedly, the `error`
+ * event is emitted instead.
+ */
+export class PipelineRun extends EventEmitter {
+  private readonly abortController: AbortController;
+  private readonly steps: PipelineStep[];
+  private readonly results: Map<string, PipelineStepResult>;
+
+  public constructor(
+    private readonly client: HttpClient,
+    steps: PipelineStep[],
+    private readonly options: RunPipelineOptions = {},
+  ) {
+    super();
+    this.steps = sortSteps(steps);
+    this.results = new Map(steps.map(({ name }) => [name, { name, status: 'pending' }]));
+
+    this.abortController = new AbortController();
+    const onAbort = () => {
+      this.abortController.abort();
+    };
+
+    options.signal?.addEventListener('abort', onAbort, { once: true });
+
+    this.run()
+      // eslint-disable-next-line promise/prefer-await-to-then
+      .then(() => {
+        this.emit('finish', this.result);
+      })
+      // eslint-disable-next-line promise/prefer-await-to-then
+      .catch((error: any) => {
+        this.emit('error', error);
+      })
+      // eslint-disable-next-line promise/prefer-await-to-then
+      .finally(() => {
+        // A long-lived signal must not keep finished runs alive.
+        options.signal?.removeEventListener('abort', onAbort);
+      });
+  }
+
+  /** The current status of each step, in the order in which they were declared. */
+  public get result(): PipelineResult {
+    const steps = [...this.results.values()];
+    return { succeeded: steps.every(({ status }) => status === 'succeeded'), steps };
+  }
+
+  /**
+   * Stops running the pipeline: steps that have not started are skipped, and steps that are
+   * running fail with an `AbortError`. Submitted jobs keep running.
+   */
+  public abort(): void {
+    this.abortController.abort();
+  }
+
+  public get aborted(): boolean {
+    return this.abortController.signal.aborted;
+  }
+
+  /**
+   * @returns a `Promise` that resolves to the result of the pipeline once every step has
+   * finished or been skipped.
+   */
+  public get finished(): Promise<PipelineResult> {
+    return new Promise((resolve, reject) => {
+      this.on('finish', resolve);
+      this.on('error', reject);
+    });
+  }
+
+  private async run(): Promise<void> {
+    const concurrency = this.options.concurrency ?? Number.POSITIVE_INFINITY;
+    const running = new Map<string, Promise<void>>();
+    const runStep = async (step: PipelineStep) => {
+      try {
+        await this.runStep(step);
+      } finally {
+        running.delete(step.name);
+      }
+    };
+
+    // Let listeners be attached before the first steps start.
+    await Promise.resolve();
+    for (;;) {
+      // The steps are sorted, so upstream failures are known before their dependents are seen.
+      for (const step of this.steps) {
+        if (this.results.get(step.name)!.status !== 'pending') continue;
+        const upstream = dependenciesOf(step).map((name) => this.results.get(name)!);
+        const blocker = upstream.find(({ status }) => status === 'failed' || status === 'skipped');
+        if (blocker || this.aborted) {
+          const reason = blocker
+            ? `upstream step \`${blocker.name}\` ${blocker.status}`
+            : 'aborted';
+          this.update(step.name, {
+            status: 'skipped',
+            error: new PipelineError(`step \`${step.name}\` was skipped: ${reason}`),
+          });
+        } else if (
+          running.size < concurrency &&
+          upstream.every(({ status }) => status === 'succeeded')
+        ) {
+          running.set(step.name, runStep(step));
+        }
+      }
+
+      if (running.size === 0) return;
+      await Promise.race(running.values());
+    }
+  }
+
+  private async runStep(step: PipelineStep): Promise<void> {
+    this.update(step.name, { status: 'running' });
+    try {
+      const inputDocuments: InputDocumentSpec[] = [...(step.spec.inputDocuments ?? [])];
+      for (const input of step.inputs ?? []) {
+        const upstreamJob = this.results.get(input.step)!.job!;
+        const output = upstreamJob.io.outputDocuments.find((o) => o.mountPath === input.output);
+        if (!output) {
+          throw new PipelineError(
+            `step \`${input.step}\` did not output \`${input.output}\` (job ${upstreamJob.id})`,
+          );
+        }
+
+        inputDocuments.push({ id: output.id, mountPath: input.mountPath });
+      }
+
+      const submittedJob = await ComputeImpl.submitJob(this.client, {
+        ...step.spec,
+        inputDocuments,
+      });
+      this.update(step.name, { job: submittedJob });
+
+      const job = await ComputeImpl.waitForJob(this.client, submittedJob.id, {
+        ...this.options,
+        signal: this.abortController.signal,
+      });
+      if (job.status?.phase === JobPhase.SUCCEEDED) {
+        this.update(step.name, { status: 'succeeded', job });
+      } else {
+        const message = job.status?.message ? `: ${job.status.message}` : '';
+        this.update(step.name, {
+          status: 'failed',
+          job,
+          error: new Error(`job ${job.id} failed${message}`),
+        });
+      }
+    } catch (error: any) {
+      this.update(step.name, { status: 'failed', error });
+    }
+  }
+
+  private update(name: string, changes: Partial<PipelineStepResult>): void {
+    const result = { ...this.results.get(name)!, ...changes };
+    this.results.set(name, result);
+    this.emit('step', result);
+  }
+}
+
+function dependenciesOf(step: PipelineStep): string[] {
+  return [
+    ...new Set([...(step.inputs ?? []).map((input) => input.step), ...(step.dependsOn ?? [])]),
+  ];
+}
+
+/**
+ * Checks that the steps reference only known steps and outputs.
+ * @returns the steps in topological order.
+ * @throws `PipelineError` if the steps are invalid or form a cycle.
+ */
+function sortSteps(steps: PipelineStep[]): PipelineStep[] {
+  const stepsByName = new Map<string, PipelineStep>();
+  for (const step of steps) {
+    if (stepsByName.has(step.name)) throw new PipelineError(`duplicate step \`${step.name}\``);
+    stepsByName.set(step.name, step);
+  }
+
+  for (const step of steps) {
+    for (const name of dependenciesOf(step)) {
+      if (!stepsByName.has(name)) {
+        throw new PipelineError(`step \`${step.name}\` depends on unknown step \`${name}\``);
+      }
+    }
+
+    for (const input of step.inputs ?? []) {
+      const upstreamOutputs = stepsByName.get(input.step)!.spec.outputDocuments ?? [];
+      if (!upstreamOutputs.some(({ mountPath }) => mountPath === input.output)) {
+        throw new PipelineError(
+          `step \`${step.name}\` uses output \`${input.output}\` of step \`${input.step}\`, which does not declare it`,
+        );
+      }
+    }
+  }
+
+  // Depth-first search, which finds cycles as it goes.
+  const sorted: PipelineStep[] = [];
+  const visited = new Set<string>();
+  const path: string[] = [];
+  const visit = (step: PipelineStep) => {
+    if (visited.has(step.name)) return;
+    if (path.includes(step.name)) {
+      const cycle = [...path.slice(path.indexOf(step.name)), step.name];
+      throw new PipelineError(`steps form a cycle: ${cycle.join(' -> ')}`);
+    }
+
+    path.push(step.name);
+    for (const name of dependenciesOf(step)) visit(stepsByName.get(name)!);
+    path.pop();
+    visited.add(step.name);
+    sorted.push(step);
+  };
+
+  for (const step of steps) visit(step);
+  return sorted;
+}
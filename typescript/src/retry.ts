@@ -0,0 +1,159 @@
+import { HTTPError } from 'ky';
+
+import { sleep } from './model.js';
+
+/**
+ * Controls how failed requests are retried. Requests are only retried if they are
+ * safe to repeat: `GET`, `PUT`, and `DELETE` are idempotent, and `POST` is retried
+ * only when the request carries an idempotency key.
+ */
+export type RetryConfig = Partial<{
+  /** The maximum number of retries after the initial attempt. Defaults to 2. */
+  limit: number;
+
+  /** Response status codes that are considered transient. */
+  statusCodes: number[];
+
+  /** The delay before the first retry, in milliseconds. Doubled for each further retry. */
+  backoffBase: number;
+
+  /** The upper bound of the exponential backoff delay, in milliseconds. */
+  backoffLimit: number;
+
+  /**
+   * Whether to randomize each backoff delay between zero and its computed value ("full jitter"),
+   * which keeps many clients from retrying in lockstep. Defaults to `true`.
+   */
+  jitter: boolean;
+
+  /**
+   * The longest `Retry-After` (in milliseconds) that will be honored. If the server asks the
+   * client to wait longer, the request fails immediately instead.
+   */
+  maxRetryAfter: number;
+}>;
+
+export const DEFAULT_RETRY_CONFIG: Readonly<Required<RetryConfig>> = {
+  limit: 2,
+  statusCodes: [408, 429, 500, 502, 503, 504],
+  backoffBase: 300,
+  backoffLimit: 10_000,
+  jitter: true,
+  maxRetryAfter: 60_000,
+};
+
+/** Methods that may be repeated without changing the outcome. */
+const IDEMPOTENT_METHODS = new Set(['GET', 'HEAD', 'OPTIONS', 'PUT', 'DELETE']);
+
+/** Status codes for which the server's `Retry-After` header is honored. */
+const RETRY_AFTER_STATUS_CODES = new Set([429, 503]);
+
+export type RetryContext = {
+  method: string;
+
+  /** If set, a non-idempotent request may be retried, as the server will deduplicate it. */
+  idempotencyKey?: string;
+
+  /** Cancels pending retries. */
+  signal?: AbortSignal | null;
+};
+
+/**
+ * Merges retry configs, later ones taking precedence. `false` disables retries,
+ * but may be re-enabled by a later (e.g., per-call) config.
+ */
+export function mergeRetryConfigs(
+  ...configs: Array<RetryConfig | false | undefined>
+): Required<RetryConfig> | false {
+  let merged: Required<RetryConfig> | false = { ...DEFAULT_RETRY_CONFIG };
+  for (const config of configs) {
+    if (config === undefined) continue;
+    merged = config === false ? false : { ...(merged || DEFAULT_RETRY_CONFIG), ...config };
+  }
+
+  return merged;
+}
+
+/** Calls `attempt` until it succeeds or fails with an error that should not be retried. */
+export async function withRetries<T>(
+  config: Required<RetryConfig> | false,
+  context: RetryContext,
+  attempt: () => Promise<T>,
+): Promise<T> {
+  const isRetriable =
+    IDEMPOTENT_METHODS.has(context.method.toUpperCase()) || Boolean(context.idempotencyKey);
+  for (let retryCount = 0; ; retryCount++) {
+    try {
+      return await attempt();
+    } catch (error: any) {
+      if (!config || !isRetriable || retryCount >= config.limit || context.signal?.aborted) {
+        throw error;
+      }
+
+      const delay = retryDelay(config, error, retryCount);
+      if (delay === undefined) throw error;
+      await sleep(delay, context.signal);
+    }
+  }
+}
+
+/** Returns the number of milliseconds to wait before retrying, or `undefined` to give up. */
+function retryDelay(
+  config: Required<RetryConfig>,
+  error: any,
+  retryCount: number,
+): number | undefined {
+  if (error instanceof HTTPError) {
+    const { status, headers } = error.response;
+    if (!config.statusCodes.includes(status)) return undefined;
+
+    const retryAfter = headers.get('retry-after');
+    if (retryAfter !== null && RETRY_AFTER_STATUS_CODES.has(status)) {
+      const delay = parseRetryAfter(retryAfter);
+      if (delay !== undefined) return delay <= config.maxRetryAfter ? delay : undefined;
+    }
+  } else if (!isTransientError(error)) {
+    return undefined;
+  }
+
+  const backoff = Math.min(config.backoffBase * 2 ** retryCount, config.backoffLimit);
+  return config.jitter ? Math.random() * backoff : backoff;
+}
+
+/** Parses a `Retry-After` header, which is either a number of seconds or an HTTP date. */
+function parseRetryAfter(retryAfter: string): number | undefined {
+  const seconds = Number(retryAfter);
+  if (retryAfter.trim() !== '' && !Number.isNaN(seconds)) return Math.max(seconds * 1000, 0);
+  const date = Date.parse(retryAfter);
+  if (Number.isNaN(date)) return undefined;
+  return Math.max(date - Date.now(), 0);
+}
+
+/** Socket errors that Node reports when a connection fails partway through a response body. */
+const NETWORK_ERROR_CODES = new Set(['ECONNRESET', 'ECONNREFUSED', 'EPIPE', 'ETIMEDOUT']);
+
+/**
+ * Messages of the `TypeError`s with which `fetch` reports network failures in browsers
+ * (Chromium, Firefox, Safari) and in Node.
+ */
+const FETCH_NETWORK_ERROR_MESSAGES = [
+  /^Failed to fetch\b/,
+  /^NetworkError when attempting to fetch resource/,
+  /^Load failed$/,
+  /^The network connection was lost/,
+  /^fetch failed$/,
+];
+
+/**
+ * Network failures and timeouts. `fetch` reports the former as a `TypeError`, which is
+ * otherwise a programming error, so only the `TypeError`s that `fetch` uses are transient.
+ */
+export function isTransientError(error: any): boolean {
+  return (
+    (error instanceof TypeError &&
+      FETCH_NETWORK_ERROR_MESSAGES.some((pattern) => pattern.test(error.message))) ||
+    error?.name === 'FetchError' ||
+    error?.name === 'TimeoutError' ||
+    NETWORK_ERROR_CODES.has(error?.code)
+  );
+}
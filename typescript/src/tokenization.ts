@@ -1,13 +1,14 @@
-import type { Except, Opaque } from 'type-fest';
+import type { Except, Merge, Opaque } from 'type-fest';
 
 import type { AccessContext, AssetId, EscrowedAsset, EscrowedAssetSearchParams } from './asset.js';
 import { AssetImpl } from './asset.js';
 import type { Condition } from './condition.js';
-import type { Capabilities } from './grant.js';
+import type { Capabilities, CapabilitySetLike } from './grant.js';
+import { CapabilitySet } from './grant.js';
 import type { HttpClient } from './http.js';
 import type { IdentityId } from './identity.js';
-import type { Model, Page, PageParams, PODModel, ResourceId } from './model.js';
-import { makePage } from './model.js';
+import type { Model, Page, PageParams, PaginateOptions, PODModel, ResourceId } from './model.js';
+import { makePage, paginate } from './model.js';
 
 export type TokenId = Opaque<ResourceId, 'TokenId'>;
 export type TransferReceiptId = Opaque<ResourceId, 'TransferReceiptId'>;
@@ -37,6 +38,11 @@ export class Token implements Model {
   public readonly createdAt: Date;
   public readonly name?: string;
   public readonly grant: TokenGrantSpec;
+  /**
+   * The capabilities of the token's grant as a set, which, unlike `grant.capabilities`, keeps
+   * capabilities unknown to this version of the client.
+   */
+  public readonly grantCapabilities: CapabilitySet;
   public readonly consumesAssets: boolean;
   public readonly transferability: TokenTransferability;
 
@@ -48,6 +54,7 @@ export class Token implements Model {
     this.creator = pod.creator as IdentityId;
     this.createdAt = new Date(pod.createdAt);
     this.grant = pod.grant;
+    this.grantCapabilities = new CapabilitySet(pod.grant.capabilities);
     this.consumesAssets = pod.consumesAssets;
     this.transferability = pod.transferability;
   }
@@ -65,6 +72,18 @@ export class Token implements Model {
     });
   }
 
+  /** Iterates over every asset of this token that matches the filter, fetching pages as needed. */
+  public iterateAssets(
+    filter?: Except<EscrowedAssetSearchParams, 'token'> & PageParams,
+    options?: PaginateOptions,
+  ): AsyncIterable<EscrowedAsset> {
+    return paginate(
+      async (f) => AssetImpl.search(this.#client, { ...f, token: this.id }),
+      filter ?? {},
+      options,
+    );
+  }
+
   /**
    * Adds an asset to this token.
    * The asset must be held by the escrow identity and not have been consumed by another token.
@@ -90,11 +109,31 @@ export class Token implements Model {
   ): Promise<Page<TransferReceipt>> {
     return TokenImpl.listTransferReceipts(this.#client, this.id, filter);
   }
+
+  /** Iterates over the receipt of every transfer of this token, fetching pages as needed. */
+  public iterateTransfers(
+    filter?: ListTokenTransfersFilter & PageParams,
+    options?: PaginateOptions,
+  ): AsyncIterable<TransferReceipt> {
+    return paginate(
+      async (f) => TokenImpl.listTransferReceipts(this.#client, this.id, f),
+      filter ?? {},
+      options,
+    );
+  }
 }
 
 export namespace TokenImpl {
   export async function mint(client: HttpClient, params: TokenCreateParams): Promise<Token> {
-    const podToken = await client.create<PODToken>(TOKENS_EP, params);
+    const { capabilities } = params.grant;
+    const podToken = await client.create<PODToken>(TOKENS_EP, {
+      ...params,
+      grant: {
+        ...params.grant,
+        capabilities:
+          capabilities === undefined ? undefined : new CapabilitySet(capabilities).toString(),
+      },
+    });
     return new Token(client, podToken);
   }
 
@@ -185,7 +224,7 @@ export namespace TokenImpl {
 
 export type TokenCreateParams = {
   name?: string;
-  grant: TokenGrantSpec;
+  grant: Merge<TokenGrantSpec, { capabilities?: CapabilitySetLike }>;
   consumesAssets?: boolean;
   transferability: TokenTransferability;
 };
@@ -7,7 +7,7 @@ const config = {
   moduleFileExtensions: ['js', 'ts'],
   moduleNameMapper: {
     '^@oasislabs/parcel$': '<rootDir>/src/index',
-    '^\\./(app|asset|client|compute|condition|database|document|grant|http|identity|meter|model|permission|polyfill|token|tokenization).js$':
+    '^\\./(app|asset|client|compute|condition|database|document|encryption|grant|http|identity|integrity|meter|mock|model|permission|pipeline|polyfill|retry|token|tokenization).js$':
       '<rootDir>/src/$1',
     '^@oasislabs/parcel/(.*)$': '<rootDir>/src/$1',
   },
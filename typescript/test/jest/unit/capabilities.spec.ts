@@ -1,15 +1,56 @@
-import { parseCaps, Capabilities, stringifyCaps } from '@oasislabs/parcel/grant';
+import { parseCaps, Capabilities, CapabilitySet, stringifyCaps } from '@oasislabs/parcel/grant';
 
 describe('Capabilities', () => {
   it('parse', () => {
     expect(parseCaps('')).toEqual(Capabilities.None);
     expect(parseCaps('read')).toEqual(Capabilities.Read);
     expect(parseCaps('read extend ')).toEqual(Capabilities.Read | Capabilities.Extend);
+    expect(parseCaps('write read')).toEqual(Capabilities.Read);
   });
 
   it('stringify', () => {
     expect(stringifyCaps(Capabilities.None)).toEqual('');
     expect(stringifyCaps(Capabilities.Read)).toEqual('read');
     expect(stringifyCaps(Capabilities.Read | Capabilities.Extend)).toEqual('read extend');
+    expect(stringifyCaps(new CapabilitySet('write read'))).toEqual('read write');
+  });
+});
+
+describe('CapabilitySet', () => {
+  it('is made from any form of capabilities', () => {
+    const caps = new CapabilitySet(' extend  read');
+    expect(caps.equals(Capabilities.Read | Capabilities.Extend)).toBe(true);
+    expect(caps.equals(['read', 'extend'])).toBe(true);
+    expect(caps.equals(new CapabilitySet(caps))).toBe(true);
+    expect(caps.equals('read')).toBe(false);
+    expect(new CapabilitySet().isEmpty).toBe(true);
+    expect(new CapabilitySet(Capabilities.None).isEmpty).toBe(true);
+  });
+
+  it('combines sets', () => {
+    const caps = new CapabilitySet('read extend');
+    expect(caps.has('read')).toBe(true);
+    expect(caps.has('read extend')).toBe(true);
+    expect(caps.has('read write')).toBe(false);
+    expect(caps.union('write read').toString()).toEqual('read extend write');
+    expect(caps.intersect(['write', 'extend']).toString()).toEqual('extend');
+    expect(caps.difference(Capabilities.Read).toString()).toEqual('extend');
+    expect(caps.isSubsetOf('read')).toBe(false);
+    expect(caps.isSubsetOf('read extend write')).toBe(true);
+  });
+
+  it('keeps unknown capabilities', () => {
+    const caps = new CapabilitySet('write read admin');
+    expect(caps.size).toEqual(3);
+    expect(caps.has('write')).toBe(true);
+    expect([...caps]).toEqual(['read', 'admin', 'write']);
+    expect(caps.toCapabilities()).toEqual(Capabilities.Read);
+  });
+
+  it('round-trips through JSON', () => {
+    const caps = new CapabilitySet('extend write read');
+    const json = JSON.stringify({ capabilities: caps });
+    expect(json).toEqual('{"capabilities":"read extend write"}');
+    expect(new CapabilitySet(JSON.parse(json).capabilities)).toEqual(caps);
   });
 });
@@ -0,0 +1,456 @@
+import type { Condition, ConditionContext, DocumentId, IdentityId } from '@oasislabs/parcel';
+import {
+  cond,
+  ConditionError,
+  ConditionSyntaxError,
+  evaluateCondition,
+  InvalidConditionError,
+  normalizeCondition,
+  parseCondition,
+  printCondition,
+  validateCondition,
+} from '@oasislabs/parcel';
+
+import { makeParcel } from './helpers';
+
+describe('condition', () => {
+  describe('builder', () => {
+    it('builds relational selectors', () => {
+      const identityId = 'I1' as IdentityId;
+      expect(cond.document.owner.eq(identityId)).toEqual({ 'document.owner': { $eq: 'I1' } });
+      expect(cond.document.id.in(['D1', 'D2'] as DocumentId[])).toEqual({
+        'document.id': { $in: ['D1', 'D2'] },
+      });
+      expect(cond.job.image.ne('bash')).toEqual({ 'job.spec.image': { $ne: 'bash' } });
+      expect(cond.accessTime.gte('2021-01-01T00:00:00Z')).toEqual({
+        accessTime: { $gte: '2021-01-01T00:00:00Z' },
+      });
+      expect(cond.database.name.nin(['db'])).toEqual({ 'database.name': { $nin: ['db'] } });
+    });
+
+    it('builds set and array operators', () => {
+      expect(cond.document.tags.contains('x')).toEqual({ 'document.tags': { $contains: 'x' } });
+      expect(cond.document.tags.subset(['x', 'y'])).toEqual({
+        'document.tags': { $subset: ['x', 'y'] },
+      });
+      expect(cond.document.tags.size.gt(1)).toEqual({ 'document.tags': { $size: { $gt: 1 } } });
+      expect(cond.document.tags.values.any.eq('x')).toEqual({
+        'document.tags': { $values: { $any: { $eq: 'x' } } },
+      });
+      expect(cond.document.tags.values.size.lte(3)).toEqual({
+        'document.tags': { $values: { $size: { $lte: 3 } } },
+      });
+    });
+
+    it('chains logical operators', () => {
+      const condition: Condition = cond.document.tags
+        .contains('x')
+        .and(cond.job.image.eq('bash'), cond.job.image.eq('sh').not());
+      expect(condition).toEqual({
+        $and: [
+          { 'document.tags': { $contains: 'x' } },
+          { 'job.spec.image': { $eq: 'bash' } },
+          { $not: { 'job.spec.image': { $eq: 'sh' } } },
+        ],
+      });
+      expect(cond.anyOf(cond.document.title.eq('a'), cond.document.title.eq('b'))).toEqual({
+        $or: [{ 'document.title': { $eq: 'a' } }, { 'document.title': { $eq: 'b' } }],
+      });
+      expect(cond.noneOf(cond.document.title.eq('a')).or(cond.document.title.eq('b'))).toEqual({
+        $or: [{ $nor: [{ 'document.title': { $eq: 'a' } }] }, { 'document.title': { $eq: 'b' } }],
+      });
+    });
+
+    it('serializes as plain conditions', () => {
+      const condition = cond.document.title.eq('a').and(cond.document.tags.contains('x'));
+      expect(JSON.parse(JSON.stringify(condition))).toEqual({
+        $and: [{ 'document.title': { $eq: 'a' } }, { 'document.tags': { $contains: 'x' } }],
+      });
+      expect(Object.keys(condition)).toEqual(['$and']);
+    });
+  });
+
+  describe('evaluate', () => {
+    const context: ConditionContext = {
+      accessor: 'I1' as IdentityId,
+      accessTime: new Date('2021-06-01T00:00:00Z'),
+      document: {
+        id: 'D1' as DocumentId,
+        owner: 'I2' as IdentityId,
+        details: { title: 'fixture', tags: ['a', 'b'] },
+      },
+      job: {
+        name: 'job',
+        image: 'bash',
+        cmd: [],
+        inputDocuments: [{ id: 'D1' as DocumentId, mountPath: 'in.txt' }],
+      },
+      worker: { version: '1.2.0' },
+    };
+
+    function evaluate(condition: Condition): boolean {
+      return evaluateCondition(condition, context).result;
+    }
+
+    it('evaluates relational operators', () => {
+      expect(evaluate(cond.identity.id.eq('I1' as IdentityId))).toBe(true);
+      expect(evaluate(cond.identity.id.ne('I1' as IdentityId))).toBe(false);
+      expect(evaluate(cond.document.owner.in(['I1', 'I2'] as IdentityId[]))).toBe(true);
+      expect(evaluate(cond.document.owner.nin(['I2'] as IdentityId[]))).toBe(false);
+      expect(evaluate(cond.document.title.gt('a'))).toBe(true);
+      expect(evaluate(cond.document.title.lte('b'))).toBe(false);
+      expect(evaluate(cond.document.title.gt('Z'))).toBe(true);
+      expect(evaluate({ 'worker.version': { $eq: '1.2.0' } } as any)).toBe(true);
+    });
+
+    it('compares times', () => {
+      expect(evaluate(cond.accessTime.gte('2021-01-01T00:00:00Z'))).toBe(true);
+      expect(evaluate(cond.accessTime.lt('2021-06-01T00:00:00Z'))).toBe(false);
+      expect(evaluate({ accessTime: { $lte: new Date('2021-06-01T00:00:00Z') } } as any)).toBe(
+        true,
+      );
+    });
+
+    it('treats unset values as unequal to everything', () => {
+      expect(evaluate(cond.database.name.eq('db'))).toBe(false);
+      expect(evaluate(cond.database.name.ne('db'))).toBe(true);
+      expect(evaluate(cond.database.name.nin(['db']))).toBe(true);
+      expect(evaluate(cond.database.name.gt('a'))).toBe(false);
+    });
+
+    it('matches any element of job inputs', () => {
+      const input = { id: 'D1' as DocumentId, mountPath: 'in.txt' };
+      expect(evaluate(cond.job.inputs.eq(input))).toBe(true);
+      expect(evaluate(cond.job.inputs.ne(input))).toBe(false);
+      expect(evaluate(cond.job.inputs.eq({ ...input, mountPath: 'other.txt' }))).toBe(false);
+      expect(evaluate(cond.job.image.eq('bash'))).toBe(true);
+    });
+
+    it('evaluates set and array operators', () => {
+      const { tags } = cond.document;
+      expect(evaluate(tags.contains('a'))).toBe(true);
+      expect(evaluate(tags.contains('c'))).toBe(false);
+      expect(evaluate(tags.intersects(['b', 'c']))).toBe(true);
+      expect(evaluate(tags.superset(['a', 'b']))).toBe(true);
+      expect(evaluate(tags.superset(['a', 'c']))).toBe(false);
+      expect(evaluate(tags.subset(['a', 'b', 'c']))).toBe(true);
+      expect(evaluate(tags.subset(['a']))).toBe(false);
+      expect(evaluate(tags.size.eq(2))).toBe(true);
+      expect(evaluate(tags.values.any.eq('b'))).toBe(true);
+      expect(evaluate(tags.values.all.eq('b'))).toBe(false);
+      expect(evaluate(tags.values.all.in(['a', 'b']))).toBe(true);
+      expect(evaluate(tags.values.size.gt(2))).toBe(false);
+    });
+
+    it('evaluates logical operators', () => {
+      const yes = cond.document.title.eq('fixture');
+      const no = cond.document.title.eq('other');
+      expect(evaluate(cond.and(yes, yes))).toBe(true);
+      expect(evaluate(cond.and(yes, no))).toBe(false);
+      expect(evaluate(cond.or(no, yes))).toBe(true);
+      expect(evaluate(cond.nor(no, no))).toBe(true);
+      expect(evaluate(cond.nor(no, yes))).toBe(false);
+      expect(evaluate(cond.not(no))).toBe(true);
+      expect(evaluate(cond.and())).toBe(true);
+      expect(evaluate(cond.or())).toBe(false);
+    });
+
+    it('explains the result', () => {
+      const { result, trace } = evaluateCondition(
+        cond.or(
+          cond.document.tags.contains('c'),
+          cond.not(cond.identity.id.eq('I2' as IdentityId)),
+        ),
+        context,
+      );
+      expect(result).toBe(true);
+      expect(trace).toMatchObject({
+        result: true,
+        explanation: '`$or` is true because 1 of 2 conditions are true',
+        children: [
+          {
+            result: false,
+            explanation: '`document.tags` is ["a","b"], which does not satisfy {"$contains":"c"}',
+          },
+          {
+            result: true,
+            explanation: '`$not` is true because its condition is false',
+            children: [
+              {
+                result: false,
+                explanation: '`identity.id` is "I1", which does not satisfy {"$eq":"I2"}',
+              },
+            ],
+          },
+        ],
+      });
+      expect(trace.children![0].condition).toEqual({ 'document.tags': { $contains: 'c' } });
+    });
+
+    it('rejects malformed conditions', () => {
+      expect(() => evaluate({ 'document.size': { $eq: 1 } } as any)).toThrow(
+        'unknown selector `document.size`',
+      );
+      expect(() => evaluate({ 'document.title': { $like: 'a' } } as any)).toThrow(ConditionError);
+      expect(() => evaluate({ 'document.title': { $eq: 'a', $ne: 'b' } } as any)).toThrow(
+        'operator must have exactly one key, but got {"$eq":"a","$ne":"b"}',
+      );
+      expect(() => evaluate({ $and: {} } as any)).toThrow('`$and` takes an array of conditions');
+    });
+  });
+
+  describe('syntax', () => {
+    const condition: Condition = cond.and(
+      cond.document.tags.contains('csv'),
+      cond.or(
+        cond.job.image.eq('bash'),
+        cond.and(cond.job.image.in(['sh', 'zsh']), cond.document.tags.size.gte(2)),
+      ),
+      cond.not(cond.or(cond.document.title.ne('a"b'), cond.identity.id.nin([]))),
+      cond.nor(cond.document.tags.values.all.in(['a'])),
+      cond.job.inputs.eq({ id: 'D1' as DocumentId, mountPath: 'in.txt' }),
+    );
+
+    it('prints conditions', () => {
+      expect(printCondition(condition, { maxLineLength: Number.POSITIVE_INFINITY })).toEqual(
+        'document.tags contains "csv"' +
+          ' and (job.spec.image = "bash" or job.spec.image in ["sh", "zsh"] and document.tags size >= 2)' +
+          ' and not (document.title != "a\\"b" or identity.id not in [])' +
+          ' and nor(document.tags values all in ["a"])' +
+          ' and job.spec.inputs = {"id": "D1", "mountPath": "in.txt"}',
+      );
+      expect(printCondition(condition)).toEqual(
+        [
+          'document.tags contains "csv"',
+          'and (',
+          '  job.spec.image = "bash"',
+          '  or job.spec.image in ["sh", "zsh"] and document.tags size >= 2',
+          ')',
+          'and not (document.title != "a\\"b" or identity.id not in [])',
+          'and nor(document.tags values all in ["a"])',
+          'and job.spec.inputs = {"id": "D1", "mountPath": "in.txt"}',
+        ].join('\n'),
+      );
+    });
+
+    it('round-trips', () => {
+      expect(parseCondition(printCondition(condition))).toEqual(condition);
+      expect(parseCondition(printCondition(condition, { maxLineLength: 20 }))).toEqual(condition);
+      for (const c of [
+        cond.and(cond.and(cond.identity.id.eq('I1' as IdentityId), cond.accessTime.lt(0 as any))),
+        cond.accessTime.gte(new Date('2021-01-01T00:00:00Z')),
+        cond.not(cond.accessTime.in([new Date(0), new Date('2021-06-01T00:00:00Z')])),
+        cond.or(),
+        cond.not(cond.not(cond.database.name.eq(null as any))),
+        cond.or(cond.or(cond.database.id.eq('D1' as any), cond.database.id.eq('D2' as any))),
+        cond.document.tags.superset(['a']).and(cond.document.tags.values.any.ne(true as any)),
+      ]) {
+        expect(parseCondition(printCondition(c))).toEqual(c);
+      }
+    });
+
+    it('parses comments and precedence', () => {
+      expect(
+        parseCondition(`
+          # Owned by a partner.
+          document.owner in ["I1", "I2"]
+          or not document.title = "a" and document.tags intersects ["b"]
+        `),
+      ).toEqual({
+        $or: [
+          { 'document.owner': { $in: ['I1', 'I2'] } },
+          {
+            $and: [
+              { $not: { 'document.title': { $eq: 'a' } } },
+              { 'document.tags': { $intersects: ['b'] } },
+            ],
+          },
+        ],
+      });
+    });
+
+    it('reports the position of syntax errors', () => {
+      const parseError = (text: string) => {
+        try {
+          parseCondition(text);
+        } catch (error: unknown) {
+          return error as ConditionSyntaxError;
+        }
+
+        throw new Error('expected a syntax error');
+      };
+
+      const error = parseError('document.title = "a"\n  and document.tags has "b"');
+      expect(error).toBeInstanceOf(ConditionSyntaxError);
+      expect(error).toBeInstanceOf(ConditionError);
+      expect(error).toMatchObject({ line: 2, column: 21 });
+      expect(error.message).toEqual('line 2, column 21: expected an operator, but found `has`');
+      expect(parseError('(document.title = "a"').message).toEqual(
+        'line 1, column 22: expected `)`, but found the end of the condition',
+      );
+      expect(parseError('document.title = @').message).toEqual(
+        'line 1, column 18: unexpected character `@`',
+      );
+      expect(parseError('document.tags subset "a"').message).toEqual(
+        'line 1, column 22: expected a list, but found `"a"`',
+      );
+      expect(parseError('document.title = "a" document.title = "b"').message).toEqual(
+        'line 1, column 22: expected `and`, `or`, or the end of the condition, but found `document.title`',
+      );
+    });
+
+    it('rejects unprintable conditions', () => {
+      expect(() => printCondition({ 'document.title': { $like: 'a' } } as any)).toThrow(
+        'unknown operator `$like`',
+      );
+      expect(() => printCondition({ 'not a selector': { $eq: 'a' } } as any)).toThrow(
+        ConditionError,
+      );
+    });
+  });
+
+  describe('validate', () => {
+    it('accepts valid conditions', () => {
+      expect(
+        validateCondition(
+          cond.and(
+            cond.document.tags.values.size.gte(1),
+            cond.accessTime.lt('2021-01-01T00:00:00Z'),
+            cond.not(cond.job.outputs.in([{ mountPath: 'out.txt' }])),
+            cond.nor(cond.document.owner.eq('I1' as IdentityId)),
+            cond.document.title.gte('a'),
+          ),
+        ),
+      ).toEqual([]);
+      expect(validateCondition({ accessTime: { $gte: new Date() } })).toEqual([]);
+    });
+
+    it('reports issues at their JSON paths', () => {
+      expect(validateCondition({ $not: {}, $and: [] })).toEqual([
+        { path: '$', message: 'must have exactly one key, but got {"$not":{},"$and":[]}' },
+      ]);
+      expect(
+        validateCondition({
+          $or: [
+            { 'document.size': { $eq: 1 } },
+            { 'job.spec.inputs': { $gte: { id: 'D1', mountPath: 'in.txt' } } },
+            { 'document.title': { $contains: 'a' } },
+            { 'document.tags': { $eq: 'a' } },
+            { 'document.tags': { $intersects: ['a', 1] } },
+            { 'job.spec.inputs': { $in: [{ id: 'D1' }] } },
+            { accessTime: { $lt: 'yesterday' } },
+            { $and: {} },
+            { $not: 'a' },
+          ],
+        }),
+      ).toEqual([
+        { path: "$.$or[0]['document.size']", message: 'is not a selector, like `document.id`' },
+        {
+          path: "$.$or[1]['job.spec.inputs'].$gte",
+          message: 'cannot compare an input document `{ id, mountPath }`, which is not ordered',
+        },
+        {
+          path: "$.$or[2]['document.title'].$contains",
+          message: 'is a set operator, which applies only to `document.tags`',
+        },
+        { path: "$.$or[3]['document.tags'].$eq", message: 'is not a set operator' },
+        {
+          path: "$.$or[4]['document.tags'].$intersects[1]",
+          message: 'must be a string, but got 1',
+        },
+        {
+          path: "$.$or[5]['job.spec.inputs'].$in[0]",
+          message: 'must be an input document `{ id, mountPath }`, but got {"id":"D1"}',
+        },
+        { path: '$.$or[6].accessTime.$lt', message: 'must be a time, but got "yesterday"' },
+        { path: '$.$or[7].$and', message: 'must be an array of conditions' },
+        { path: '$.$or[8].$not', message: 'must be a condition, but got "a"' },
+      ]);
+    });
+
+    it('is checked when creating grants', async () => {
+      const condition: any = { 'document.title': { $in: 'a' } };
+      await expect(makeParcel().createGrant({ grantee: 'everyone', condition })).rejects.toThrow(
+        new InvalidConditionError([
+          { path: "$['document.title'].$in", message: 'must be an array, but got "a"' },
+        ]),
+      );
+      await expect(makeParcel().createGrant({ grantee: 'everyone', condition })).rejects.toThrow(
+        'invalid condition: `$[\'document.title\'].$in` must be an array, but got "a"',
+      );
+    });
+  });
+
+  describe('normalize', () => {
+    const a = cond.document.title.eq('a');
+    const b = cond.document.tags.contains('b');
+    const c = cond.job.image.eq('c');
+
+    it('flattens and sorts logical operators', () => {
+      expect(normalizeCondition(cond.and(cond.and(c, a), cond.and(b), a))).toEqual({
+        $and: [b, a, c],
+      });
+      expect(normalizeCondition(cond.or(c, cond.or(a, cond.and(b, c)), cond.or()))).toEqual({
+        $or: [{ $and: [b, c] }, a, c],
+      });
+      expect(normalizeCondition(cond.and(a))).toEqual(a);
+      expect(normalizeCondition(cond.and(a, cond.or()))).toEqual({ $or: [] });
+      expect(normalizeCondition(cond.or(a, cond.and()))).toEqual({ $and: [] });
+    });
+
+    it('pushes negations inward', () => {
+      expect(normalizeCondition(cond.not(cond.not(a)))).toEqual(a);
+      expect(normalizeCondition(cond.not(cond.and(a, b)))).toEqual({
+        $or: [{ $not: b }, { 'document.title': { $ne: 'a' } }],
+      });
+      expect(normalizeCondition(cond.nor(a, cond.not(c)))).toEqual({
+        $and: [{ 'document.title': { $ne: 'a' } }, c],
+      });
+      expect(normalizeCondition(cond.not(cond.accessTime.gt('2021-01-01T00:00:00Z')))).toEqual({
+        $not: { accessTime: { $gt: new Date('2021-01-01T00:00:00Z') } },
+      });
+    });
+
+    it('merges sets of values', () => {
+      const { id } = cond.document;
+      const [d1, d2, d3] = ['D1', 'D2', 'D3'] as DocumentId[];
+      expect(normalizeCondition(cond.or(id.in([d3, d1]), id.eq(d2), id.in([d1]), a))).toEqual({
+        $or: [{ 'document.id': { $in: ['D1', 'D2', 'D3'] } }, a],
+      });
+      expect(normalizeCondition(cond.not(cond.or(id.eq(d2), id.eq(d1))))).toEqual({
+        'document.id': { $nin: ['D1', 'D2'] },
+      });
+      expect(normalizeCondition(id.in([d1, d1]))).toEqual({ 'document.id': { $eq: 'D1' } });
+      // Intersecting sets would change the meaning for array-valued selectors.
+      expect(normalizeCondition(cond.and(id.in([d1, d2]), id.in([d2, d3])))).toEqual({
+        $and: [{ 'document.id': { $in: ['D1', 'D2'] } }, { 'document.id': { $in: ['D2', 'D3'] } }],
+      });
+    });
+
+    it('makes equivalent conditions equal', () => {
+      const input = { id: 'D1' as DocumentId, mountPath: 'in.txt' };
+      const sameInput: any = { mountPath: 'in.txt', id: 'D1' };
+      const x = cond.and(cond.job.inputs.eq(input), cond.or(a, b), cond.not(c));
+      const y = cond.nor(cond.or(c, cond.nor(b, a), cond.job.inputs.ne(sameInput)));
+      expect(JSON.stringify(normalizeCondition(x))).toEqual(JSON.stringify(normalizeCondition(y)));
+    });
+
+    it('preserves the meaning of conditions', () => {
+      const context: ConditionContext = {
+        accessor: 'I1' as IdentityId,
+        accessTime: new Date(),
+        document: { id: 'D1' as DocumentId, details: { title: 'a', tags: [] } },
+      };
+      for (const condition of [
+        cond.not(cond.and(a, b)),
+        cond.nor(cond.document.id.nin(['D2', 'D3'] as DocumentId[]), c),
+        cond.or(cond.document.id.eq('D2' as DocumentId), cond.database.name.eq('db')),
+        cond.not(cond.or(cond.database.name.ne('db'), cond.not(a))),
+      ]) {
+        expect(evaluateCondition(normalizeCondition(condition), context).result).toEqual(
+          evaluateCondition(condition, context).result,
+        );
+      }
+    });
+  });
+});
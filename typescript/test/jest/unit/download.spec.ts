@@ -0,0 +1,98 @@
+import { Readable } from 'stream';
+
+import nock from 'nock';
+
+import type { default as Parcel, Download } from '@oasislabs/parcel';
+import { DownloadRangeError } from '@oasislabs/parcel';
+
+import { makeParcel, parcelNock, STORAGE_URL } from './helpers';
+
+describe('download', () => {
+  let parcel: Parcel;
+
+  const fixtureData = 'fixture data'; // 12 bytes
+
+  beforeEach(() => {
+    parcel = makeParcel();
+  });
+
+  afterEach(() => {
+    nock.cleanAll();
+  });
+
+  afterAll(() => {
+    nock.restore(); // https://github.com/nock/nock#memory-issues-with-jest
+  });
+
+  async function readAll(download: Download): Promise<string> {
+    const chunks = [];
+    for await (const chunk of download) chunks.push(chunk);
+    return Buffer.concat(chunks).toString();
+  }
+
+  it('downloads a range', async () => {
+    const scope = parcelNock(STORAGE_URL)
+      .get('/D1/download')
+      .matchHeader('range', 'bytes=4-7')
+      .reply(206, 'ure ', { 'content-range': 'bytes 4-7/12' });
+
+    const download = parcel.downloadDocument('D1' as any, { range: { start: 4, end: 7 } });
+    expect(await readAll(download)).toEqual('ure ');
+    scope.done();
+  });
+
+  it('downloads an open-ended range', async () => {
+    const scope = parcelNock(STORAGE_URL)
+      .get('/D1/download')
+      .matchHeader('range', 'bytes=8-')
+      .reply(206, 'data', { 'content-range': 'bytes 8-11/12' });
+
+    const download = parcel.downloadDocument('D1' as any, { range: { start: 8 } });
+    expect(await readAll(download)).toEqual('data');
+    scope.done();
+  });
+
+  it('rejects a full response to a range request', async () => {
+    const scope = parcelNock(STORAGE_URL).get('/D1/download').reply(200, fixtureData);
+
+    const download = parcel.downloadDocument('D1' as any, { range: { start: 4, end: 7 } });
+    await expect(readAll(download)).rejects.toThrow(DownloadRangeError);
+    scope.done();
+  });
+
+  it('rejects a mismatched content range', async () => {
+    const scope = parcelNock(STORAGE_URL)
+      .get('/D1/download')
+      .reply(206, fixtureData, { 'content-range': 'bytes 0-11/12' });
+
+    const download = parcel.downloadDocument('D1' as any, { range: { start: 4 } });
+    await expect(readAll(download)).rejects.toThrow('got content range `bytes 0-11/12`');
+    scope.done();
+  });
+
+  it('resumes from the last received byte', async () => {
+    let reads = 0;
+    const brokenBody = new Readable({
+      read() {
+        if (reads++ === 0) {
+          this.push('fixture ');
+        } else {
+          // Fail once the received bytes have been read.
+          setTimeout(() => {
+            this.destroy(Object.assign(new Error('socket hang up'), { code: 'ECONNRESET' }));
+          }, 10);
+        }
+      },
+    });
+    const scope = parcelNock(STORAGE_URL)
+      .get('/D1/download')
+      .reply(200, () => brokenBody, { etag: '"v1"' })
+      .get('/D1/download')
+      .matchHeader('range', 'bytes=8-')
+      .matchHeader('if-range', '"v1"')
+      .reply(206, 'data', { 'content-range': 'bytes 8-11/12' });
+
+    expect(await readAll(parcel.downloadDocument('D1' as any))).toEqual(fixtureData);
+    scope.done();
+  });
+});
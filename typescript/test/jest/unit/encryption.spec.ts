@@ -0,0 +1,245 @@
+import crypto from 'crypto';
+
+import nock from 'nock';
+
+import type { default as Parcel, Download, KeyEncryptionKey } from '@oasislabs/parcel';
+import { DecryptionError } from '@oasislabs/parcel';
+import {
+  decryptChunks,
+  encryptChunks,
+  openEnvelope,
+  sealEnvelope,
+} from '@oasislabs/parcel/encryption';
+import type { DocumentEncryption } from '@oasislabs/parcel/encryption';
+
+import { API_BASE_URL, makeParcel, parcelNock, STORAGE_URL } from './helpers';
+
+// WebCrypto is available in Node 15 and later.
+const { webcrypto } = crypto as typeof crypto & { webcrypto?: Crypto };
+const describeIfWebCrypto = webcrypto ? describe : describe.skip;
+
+describeIfWebCrypto('encryption', () => {
+  const { subtle } = webcrypto!;
+
+  const keyEncryptionKey: KeyEncryptionKey = {
+    kty: 'oct',
+    k: 'GawgguFyGrWKav7AX4VKUg', // A 128-bit AES key.
+    alg: 'A128KW',
+  };
+  const fixtureData = 'fixture data'; // 12 bytes
+
+  async function* chunksOf(...chunks: Array<string | Uint8Array>): AsyncGenerator<Uint8Array> {
+    for (const chunk of chunks) yield Buffer.from(chunk);
+  }
+
+  async function collect(chunks: AsyncIterable<Uint8Array>): Promise<Buffer> {
+    const collected = [];
+    for await (const chunk of chunks) collected.push(chunk);
+    return Buffer.concat(collected);
+  }
+
+  async function encrypt(
+    ...chunks: string[]
+  ): Promise<{ encryption: DocumentEncryption; ciphertext: Buffer[] }> {
+    const { dataKey, encryption } = await sealEnvelope({ keyEncryptionKey, chunkSize: 4 });
+    const ciphertext = [];
+    for await (const chunk of encryptChunks(dataKey, encryption, chunksOf(...chunks))) {
+      ciphertext.push(Buffer.from(chunk));
+    }
+
+    return { encryption, ciphertext };
+  }
+
+  async function decrypt(encryption: DocumentEncryption, ciphertext: Buffer[]): Promise<string> {
+    const dataKey = await openEnvelope(encryption, keyEncryptionKey);
+    return (await collect(decryptChunks(dataKey, encryption, chunksOf(...ciphertext)))).toString();
+  }
+
+  describe('chunks', () => {
+    it('round-trips', async () => {
+      const { encryption, ciphertext } = await encrypt('fixt', 'ure ', 'data');
+      expect(ciphertext.map((c) => c.length)).toEqual([20, 20, 20]);
+      expect(encryption).toMatchObject({ alg: 'A256GCM-CHUNKED', keyWrapAlg: 'AES-KW' });
+      expect(await decrypt(encryption, ciphertext)).toEqual(fixtureData);
+    });
+
+    it('round-trips empty data', async () => {
+      const { encryption, ciphertext } = await encrypt();
+      expect(ciphertext.map((c) => c.length)).toEqual([16]);
+      expect(await decrypt(encryption, ciphertext)).toEqual('');
+    });
+
+    it('detects altered data', async () => {
+      const { encryption, ciphertext } = await encrypt('fixt', 'ure ', 'data');
+      ciphertext[1][0] ^= 1;
+      await expect(decrypt(encryption, ciphertext)).rejects.toThrow(
+        'could not decrypt chunk 1: the data has been altered',
+      );
+    });
+
+    it('detects reordered chunks', async () => {
+      const { encryption, ciphertext } = await encrypt('fixt', 'ure ', 'data');
+      await expect(
+        decrypt(encryption, [ciphertext[1], ciphertext[0], ciphertext[2]]),
+      ).rejects.toThrow(DecryptionError);
+    });
+
+    it('detects truncated data', async () => {
+      const { encryption, ciphertext } = await encrypt('fixt', 'ure ', 'data');
+      await expect(decrypt(encryption, ciphertext.slice(0, 2))).rejects.toThrow(DecryptionError);
+      await expect(decrypt(encryption, [])).rejects.toThrow('encrypted data is empty');
+    });
+
+    it('rejects the wrong key-encryption key', async () => {
+      const { encryption } = await encrypt();
+      const wrongKey = { ...keyEncryptionKey, k: 'AAAAAAAAAAAAAAAAAAAAAA' };
+      await expect(openEnvelope(encryption, wrongKey)).rejects.toThrow(
+        'could not unwrap the data key',
+      );
+    });
+
+    it('wraps data keys using RSA', async () => {
+      const keyPair = await subtle.generateKey(
+        {
+          name: 'RSA-OAEP',
+          modulusLength: 2048,
+          publicExponent: new Uint8Array([1, 0, 1]),
+          hash: 'SHA-256',
+        },
+        true,
+        ['wrapKey', 'unwrapKey'],
+      )!;
+      const privateJwk = await subtle.exportKey('jwk', keyPair.privateKey);
+
+      const { dataKey, encryption } = await sealEnvelope({ keyEncryptionKey: privateJwk });
+      expect(encryption.keyWrapAlg).toEqual('RSA-OAEP');
+      const ciphertext = await collect(encryptChunks(dataKey, encryption, chunksOf(fixtureData)));
+
+      const unwrappedKey = await openEnvelope(encryption, keyPair.privateKey);
+      const plaintext = await collect(
+        decryptChunks(unwrappedKey, encryption, chunksOf(ciphertext)),
+      );
+      expect(plaintext.toString()).toEqual(fixtureData);
+    });
+  });
+
+  describe('documents', () => {
+    let parcel: Parcel;
+
+    const fixtureDocument = {
+      id: 'D1',
+      createdAt: new Date().toISOString(),
+      creator: 'I1',
+      owner: 'I1',
+      size: 60,
+      details: {},
+    };
+
+    beforeEach(() => {
+      parcel = makeParcel();
+    });
+
+    afterEach(() => {
+      nock.cleanAll();
+    });
+
+    afterAll(() => {
+      nock.restore(); // https://github.com/nock/nock#memory-issues-with-jest
+    });
+
+    async function readAll(download: Download): Promise<string> {
+      return (await collect(download)).toString();
+    }
+
+    it('uploads encrypted data', async () => {
+      let metadata: any;
+      const scope = parcelNock(STORAGE_URL)
+        .post('/uploads', (body) => {
+          ({ metadata } = body);
+          return true;
+        })
+        .reply(201, { id: 'U1', offset: 0 })
+        .put('/uploads/U1', (body: string) => !body.includes('fixt'))
+        .matchHeader('content-range', 'bytes 0-19/60')
+        .reply(200, { id: 'U1', offset: 20 })
+        .put('/uploads/U1')
+        .matchHeader('content-range', 'bytes 20-39/60')
+        .reply(200, { id: 'U1', offset: 40 })
+        .put('/uploads/U1')
+        .matchHeader('content-range', 'bytes 40-59/60')
+        .reply(200, { id: 'U1', offset: 60 })
+        .post('/uploads/U1/complete', { size: 60, sha256: /^[\da-f]{64}$/ })
+        .reply(201, fixtureDocument);
+
+      const upload = parcel.uploadDocument(fixtureData, null, {
+        resumable: true,
+        chunkSize: 20,
+        encryption: { keyEncryptionKey, chunkSize: 4 },
+      });
+      await upload.finished;
+
+      expect(metadata.details.encryption).toMatchObject({ chunkSize: 4, keyWrapAlg: 'AES-KW' });
+      expect(upload.session?.encryption).toEqual(metadata.details.encryption);
+      scope.done();
+    });
+
+    it('uploads encrypted in-memory data with its metadata', async () => {
+      const scope = parcelNock(STORAGE_URL)
+        .post('', (body: string) => {
+          // Nock hex-encodes bodies that aren't valid UTF-8.
+          const text = /^[\da-f]+$/.test(body) ? Buffer.from(body, 'hex').toString('latin1') : body;
+          return (
+            text.includes('"encryption":{"alg":"A256GCM-CHUNKED"') &&
+            text.includes('"sha256":') &&
+            !text.includes(fixtureData)
+          );
+        })
+        .reply(201, fixtureDocument);
+
+      await parcel.uploadDocument(fixtureData, null, { encryption: { keyEncryptionKey } }).finished;
+      scope.done();
+    });
+
+    it('decrypts downloaded data', async () => {
+      const { encryption, ciphertext } = await encrypt('fixt', 'ure ', 'data');
+      const apiScope = parcelNock(API_BASE_URL)
+        .get('/documents/D1')
+        .reply(200, { ...fixtureDocument, details: { encryption } });
+      const storageScope = parcelNock(STORAGE_URL)
+        .get('/D1/download')
+        .reply(200, Buffer.concat(ciphertext));
+
+      const document = await parcel.getDocument('D1' as any);
+      expect(await readAll(document.download({ keyEncryptionKey }))).toEqual(fixtureData);
+      apiScope.done();
+      storageScope.done();
+    });
+
+    it('requires a key-encryption key to download encrypted documents', async () => {
+      const { encryption } = await encrypt('fixt', 'ure ', 'data');
+      const scope = parcelNock(API_BASE_URL)
+        .get('/documents/D1')
+        .reply(200, { ...fixtureDocument, details: { encryption } });
+
+      const document = await parcel.getDocument('D1' as any);
+      await expect(readAll(document.download())).rejects.toThrow('no key-encryption key');
+      scope.done();
+    });
+
+    it('looks up the encryption of downloaded documents when a key is given', async () => {
+      const { encryption, ciphertext } = await encrypt('fixt', 'ure ', 'data');
+      const apiScope = parcelNock(API_BASE_URL)
+        .get('/documents/D1')
+        .reply(200, { ...fixtureDocument, details: { encryption } });
+      const storageScope = parcelNock(STORAGE_URL)
+        .get('/D1/download')
+        .reply(200, Buffer.concat(ciphertext));
+
+      expect(await readAll(parcel.downloadDocument('D1' as any, { keyEncryptionKey }))).toEqual(
+        fixtureData,
+      );
+      apiScope.done();
+      storageScope.done();
+    });
+  });
+});
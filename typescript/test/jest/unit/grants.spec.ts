@@ -0,0 +1,536 @@
+import nock from 'nock';
+
+import type {
+  default as Parcel,
+  DelegationTree,
+  DocumentId,
+  GrantId,
+  IdentityId,
+} from '@oasislabs/parcel';
+import { Capabilities, cond, RevocationError } from '@oasislabs/parcel';
+
+import { makeParcel, nockIt } from './helpers';
+
+describe('grants', () => {
+  let parcel: Parcel;
+
+  const fixtureDocument = {
+    id: 'D1',
+    createdAt: new Date().toISOString(),
+    creator: 'I1',
+    owner: 'I1',
+    size: 0,
+    details: { title: 'fixture', tags: ['csv'] },
+  };
+
+  function makePodGrant(id: string, grant: Record<string, unknown> = {}) {
+    return {
+      id,
+      createdAt: new Date().toISOString(),
+      granter: 'I1',
+      grantee: 'I2',
+      capabilities: 'read',
+      ...grant,
+    };
+  }
+
+  beforeEach(() => {
+    parcel = makeParcel();
+  });
+
+  afterEach(() => {
+    nock.cleanAll();
+  });
+
+  afterAll(() => {
+    nock.restore(); // https://github.com/nock/nock#memory-issues-with-jest
+  });
+
+  describe('explainAccess', () => {
+    const accessContext = { accessor: 'I2' as IdentityId };
+
+    nockIt('explains why each grant does or does not apply', async (scope) => {
+      scope
+        .get('/documents/D1')
+        .reply(200, fixtureDocument)
+        .get('/grants')
+        .reply(200, {
+          results: [
+            makePodGrant('G1', { granter: 'I3' }),
+            makePodGrant('G2', { grantee: 'I3' }),
+            makePodGrant('G3', { capabilities: 'extend' }),
+            makePodGrant('G4', {
+              condition: cond.and(
+                cond.document.tags.contains('csv'),
+                cond.document.title.eq('other'),
+                cond.job.image.eq('bash'),
+              ),
+            }),
+          ],
+          nextPageToken: 'p2',
+        })
+        .get('/grants')
+        .query({ 'page-token': 'p2' })
+        .reply(200, { results: [], nextPageToken: '' });
+
+      const { allowed, isOwner, grants } = await parcel.explainAccess({
+        document: 'D1' as DocumentId,
+        accessContext,
+      });
+      expect(allowed).toBe(false);
+      expect(isOwner).toBe(false);
+      expect(grants.map(({ applies, mismatch }) => ({ applies, mismatch }))).toEqual([
+        { applies: false, mismatch: 'granter' },
+        { applies: false, mismatch: 'grantee' },
+        { applies: false, mismatch: 'capabilities' },
+        { applies: false, mismatch: 'condition' },
+      ]);
+      expect(grants[2].explanation).toEqual(
+        'grant G3 does not apply because it does not have the `read` capability',
+      );
+      expect(grants[3].failedClauses?.map(({ condition }) => condition)).toEqual([
+        { 'document.title': { $eq: 'other' } },
+        { 'job.spec.image': { $eq: 'bash' } },
+      ]);
+      expect(grants[3].explanation).toEqual(
+        'grant G4 does not apply because its condition is false: ' +
+          '`document.title` is "fixture", which does not satisfy {"$eq":"other"}; ' +
+          '`job.spec.image` is unset, which does not satisfy {"$eq":"bash"}',
+      );
+    });
+
+    nockIt('finds the grants that apply', async (scope) => {
+      scope.get('/grants').reply(200, {
+        results: [
+          makePodGrant('G1', {
+            grantee: null,
+            capabilities: 'read extend',
+            condition: cond.document.id.eq('D2' as DocumentId),
+          }),
+          makePodGrant('G2', {
+            grantee: null,
+            capabilities: 'read extend',
+            condition: cond.not(cond.document.id.eq('D2' as DocumentId)),
+          }),
+          makePodGrant('G3', {
+            capabilities: 'read extend',
+            condition: { 'document.size': { $eq: 0 } },
+          }),
+        ],
+        nextPageToken: '',
+      });
+
+      const { allowed, grants } = await parcel.explainAccess({
+        document: fixtureDocument as any,
+        accessContext,
+        capabilities: Capabilities.Read | Capabilities.Extend,
+      });
+      expect(allowed).toBe(true);
+      expect(grants.map(({ applies }) => applies)).toEqual([false, true, false]);
+      expect(grants[0].failedClauses?.[0].explanation).toEqual(
+        '`document.id` is "D1", which does not satisfy {"$eq":"D2"}',
+      );
+      expect(grants[1].trace?.result).toBe(true);
+      expect(grants[2].explanation).toEqual(
+        'grant G3 does not apply because its condition could not be evaluated: unknown selector `document.size`',
+      );
+    });
+
+    nockIt('allows owners', async (scope) => {
+      scope.get('/grants').reply(200, { results: [], nextPageToken: '' });
+      const explanation = await parcel.explainAccess({
+        document: fixtureDocument as any,
+        accessContext: { accessor: 'I1' as IdentityId },
+      });
+      expect(explanation).toEqual({ allowed: true, isOwner: true, grants: [] });
+    });
+  });
+
+  describe('plan', () => {
+    const csv = cond.document.tags.contains('csv');
+    const bash = cond.job.image.eq('bash');
+
+    function nockExisting(scope: nock.Scope, ...grants: any[]): nock.Scope {
+      return scope
+        .get('/grants')
+        .query({ granter: 'I1' })
+        .reply(200, { results: grants, nextPageToken: '' });
+    }
+
+    nockIt('diffs grants by their normalized content', async (scope) => {
+      nockExisting(
+        scope,
+        makePodGrant('G1', { condition: cond.and(bash, csv) }),
+        makePodGrant('G2', { condition: cond.and(csv, bash) }),
+        makePodGrant('G3', { grantee: null, capabilities: 'read extend' }),
+        makePodGrant('G4', { permission: 'P1' }),
+        makePodGrant('G5', { condition: csv }),
+      );
+
+      const plan = await parcel.planGrants(
+        [
+          {
+            grantee: 'I2' as IdentityId,
+            condition: cond.not(cond.or(cond.not(csv), cond.not(bash))),
+          },
+          { grantee: 'I2' as IdentityId, condition: csv, capabilities: 'read' },
+          { grantee: 'I2' as IdentityId, condition: csv, capabilities: Capabilities.Read },
+          { grantee: 'I3' as IdentityId, condition: csv, delegating: 'G9' as GrantId },
+        ],
+        { filter: { granter: 'I1' as IdentityId } },
+      );
+      expect(plan.isEmpty).toBe(false);
+      expect(plan.unchanged.map(({ id }) => id)).toEqual(['G1', 'G5']);
+      expect(plan.deletes.map(({ id }) => id)).toEqual(['G2', 'G3']);
+      expect(plan.creates).toEqual([{ grantee: 'I3', condition: csv, delegating: 'G9' }]);
+      expect(plan.toString()).toEqual(
+        [
+          '+ grant to I3 (read) delegating G9 if document.tags contains "csv"',
+          '- grant G2 to I2 (read) if document.tags contains "csv" and job.spec.image = "bash"',
+          '- grant G3 to everyone (read extend) unconditionally',
+          '1 to create, 2 to delete, 2 unchanged',
+        ].join('\n'),
+      );
+    });
+
+    nockIt('applies plans', async (scope) => {
+      nockExisting(scope, makePodGrant('G1'));
+      const plan = await parcel.planGrants([{ grantee: 'everyone', condition: csv }], {
+        filter: { granter: 'I1' as IdentityId },
+      });
+
+      const calls: string[] = [];
+      scope
+        .post('/grants', {
+          grantee: 'everyone',
+          condition: { 'document.tags': { $contains: 'csv' } },
+        })
+        .reply(201, () => {
+          calls.push('create');
+          return makePodGrant('G2', { grantee: null, condition: csv });
+        })
+        .delete('/grants/G1')
+        .reply(204, () => {
+          calls.push('delete');
+        });
+      const { created, deleted } = await plan.apply();
+      expect(created.map(({ id }) => id)).toEqual(['G2']);
+      expect(deleted.map(({ id }) => id)).toEqual(['G1']);
+      expect(calls).toEqual(['create', 'delete']);
+    });
+
+    nockIt('is empty when the grants match', async (scope) => {
+      nockExisting(scope, makePodGrant('G1', { condition: csv }));
+      const plan = await parcel.planGrants([{ grantee: 'I2' as IdentityId, condition: csv }], {
+        filter: { granter: 'I1' as IdentityId },
+      });
+      expect(plan.isEmpty).toBe(true);
+      expect(plan.toString()).toEqual('0 to create, 0 to delete, 1 unchanged');
+    });
+
+    nockIt('reconciles the grants given by the caller by default', async (scope) => {
+      scope
+        .get('/identities/me')
+        .reply(200, { id: 'I1', createdAt: new Date().toISOString(), tokenVerifiers: [] });
+      nockExisting(scope, makePodGrant('G1', { condition: csv }));
+      const plan = await parcel.planGrants([{ grantee: 'I2' as IdentityId, condition: csv }]);
+      expect(plan.isEmpty).toBe(true);
+    });
+
+    nockIt('matches grants without capabilities', async (scope) => {
+      nockExisting(scope, makePodGrant('G1', { capabilities: '' }));
+      const plan = await parcel.planGrants(
+        [{ grantee: 'I2' as IdentityId, capabilities: Capabilities.None }],
+        { filter: { granter: 'I1' as IdentityId } },
+      );
+      expect(plan.unchanged.map(({ id }) => id)).toEqual(['G1']);
+      expect(plan.isEmpty).toBe(true);
+    });
+
+    it('validates the desired conditions', async () => {
+      await expect(
+        parcel.planGrants([{ grantee: 'everyone', condition: { 'document.size': {} } as any }]),
+      ).rejects.toThrow("invalid condition: `$['document.size']` is not a selector");
+    });
+  });
+
+  describe('delegation', () => {
+    const grants = [
+      makePodGrant('G1', { capabilities: 'read extend' }),
+      makePodGrant('G2', { grantee: 'I3', delegating: 'G1', capabilities: 'read extend' }),
+      makePodGrant('G3', { grantee: 'I4', delegating: 'G2' }),
+      makePodGrant('G4', { grantee: 'I5', delegating: 'G2' }),
+      makePodGrant('G5', { grantee: 'I6', delegating: 'G1' }),
+      makePodGrant('G6', { grantee: 'I7' }),
+    ];
+
+    function summarize({ grant, delegated }: DelegationTree): unknown {
+      const { id, grantee, capabilities } = grant;
+      return { id, grantee, capabilities, delegated: delegated.map((d) => summarize(d)) };
+    }
+
+    nockIt('walks up the delegation chain', async (scope) => {
+      scope
+        .get('/grants/G3')
+        .reply(200, grants[2])
+        .get('/grants/G2')
+        .reply(200, grants[1])
+        .get('/grants/G1')
+        .reply(200, grants[0]);
+
+      const grant = await parcel.getGrant('G3' as GrantId);
+      const chain = await grant.getDelegationChain();
+      expect(chain.map(({ id, granter, grantee }) => [id, granter, grantee])).toEqual([
+        ['G1', 'I1', 'I2'],
+        ['G2', 'I1', 'I3'],
+        ['G3', 'I1', 'I4'],
+      ]);
+    });
+
+    nockIt('detects delegation cycles', async (scope) => {
+      scope
+        .get('/grants/G1')
+        .reply(200, { ...grants[0], delegating: 'G2' })
+        .get('/grants/G2')
+        .reply(200, grants[1]);
+
+      const grant = await parcel.getGrant('G1' as GrantId);
+      await expect(grant.getDelegationChain()).rejects.toThrow(
+        'grant G1 has a delegation cycle at grant G1',
+      );
+    });
+
+    nockIt('walks down to the delegated grants', async (scope) => {
+      scope
+        .get('/grants/G1')
+        .reply(200, grants[0])
+        .get('/grants')
+        .reply(200, { results: grants.slice(0, 3), nextPageToken: 'p2' })
+        .get('/grants')
+        .query({ 'page-token': 'p2' })
+        .reply(200, { results: grants.slice(3), nextPageToken: '' });
+
+      const tree = await parcel.getDelegatedGrants('G1' as GrantId);
+      expect(summarize(tree)).toEqual({
+        id: 'G1',
+        grantee: 'I2',
+        capabilities: Capabilities.Read | Capabilities.Extend,
+        delegated: [
+          {
+            id: 'G2',
+            grantee: 'I3',
+            capabilities: Capabilities.Read | Capabilities.Extend,
+            delegated: [
+              { id: 'G3', grantee: 'I4', capabilities: Capabilities.Read, delegated: [] },
+              { id: 'G4', grantee: 'I5', capabilities: Capabilities.Read, delegated: [] },
+            ],
+          },
+          { id: 'G5', grantee: 'I6', capabilities: Capabilities.Read, delegated: [] },
+        ],
+      });
+    });
+
+    describe('revoke', () => {
+      function nockTree(scope: nock.Scope): nock.Scope {
+        return scope
+          .get('/grants/G1')
+          .reply(200, grants[0])
+          .get('/grants')
+          .reply(200, { results: grants, nextPageToken: '' });
+      }
+
+      nockIt('revokes delegated grants leaf-first', async (scope) => {
+        const deleted: string[] = [];
+        nockTree(scope)
+          .delete(/\/grants\/G\d$/)
+          .times(5)
+          .reply(204, (uri) => {
+            deleted.push(uri.split('/').pop()!);
+          });
+
+        const report = await parcel.revokeGrant('G1' as GrantId, { cascade: true });
+        expect(report.dryRun).toBe(false);
+        expect(report.revoked.map(({ id }) => id)).toEqual(['G3', 'G4', 'G2', 'G5', 'G1']);
+        expect(report.failed).toEqual([]);
+        expect(deleted).toEqual(['G3', 'G4', 'G2', 'G5', 'G1']);
+      });
+
+      nockIt('reports failures', async (scope) => {
+        nockTree(scope)
+          .delete('/grants/G3')
+          .reply(204)
+          .delete('/grants/G4')
+          .reply(403, { error: 'forbidden' })
+          .delete('/grants/G2')
+          .reply(204)
+          .delete('/grants/G5')
+          .reply(204)
+          .delete('/grants/G1')
+          .reply(204);
+
+        const report = await parcel.revokeGrant('G1' as GrantId, { cascade: true });
+        expect(report.revoked.map(({ id }) => id)).toEqual(['G3', 'G2', 'G5', 'G1']);
+        expect(report.failed.map(({ grant, error }) => [grant.id, error.message])).toEqual([
+          ['G4', expect.stringContaining('forbidden')],
+        ]);
+      });
+
+      nockIt('does a dry run', async (scope) => {
+        nockTree(scope);
+        const report = await parcel.revokeGrant('G1' as GrantId, { cascade: true, dryRun: true });
+        expect(report.dryRun).toBe(true);
+        expect(report.revoked.map(({ id }) => id)).toEqual(['G3', 'G4', 'G2', 'G5', 'G1']);
+      });
+
+      nockIt('revokes only the grant without cascade', async (scope) => {
+        scope.get('/grants/G2').reply(200, grants[1]).delete('/grants/G2').reply(204);
+        const report = await parcel.revokeGrant('G2' as GrantId);
+        expect(report.revoked.map(({ id }) => id)).toEqual(['G2']);
+      });
+
+      nockIt('revokes permissions with their delegated grants', async (scope) => {
+        const permissionGrant = { ...grants[0], permission: 'P1' };
+        scope
+          .get('/identities/me')
+          .reply(200, { id: 'I1', createdAt: new Date().toISOString(), tokenVerifiers: [] })
+          .get('/grants')
+          .query({ granter: 'I1' })
+          .reply(200, { results: [permissionGrant, grants[5]], nextPageToken: '' })
+          .get('/grants')
+          .reply(200, { results: [permissionGrant, ...grants.slice(1)], nextPageToken: '' })
+          .delete('/grants/G5')
+          .reply(204)
+          .delete('/grants/G3')
+          .reply(204)
+          .delete('/grants/G4')
+          .reply(204)
+          .delete('/grants/G2')
+          .reply(204)
+          .delete('/identities/I1/permissions/P1')
+          .reply(204);
+
+        const identity = await parcel.getCurrentIdentity();
+        const report = await identity.revokePermission('P1' as any, { cascade: true });
+        expect(report.revoked.map(({ id }) => id)).toEqual(['G3', 'G4', 'G2', 'G5', 'G1']);
+      });
+
+      nockIt('reports failures to revoke permissions', async (scope) => {
+        scope
+          .get('/identities/me')
+          .reply(200, { id: 'I1', createdAt: new Date().toISOString(), tokenVerifiers: [] })
+          .delete('/identities/I1/permissions/P1')
+          .reply(403, { error: 'forbidden' });
+
+        const identity = await parcel.getCurrentIdentity();
+        const revocation = identity.revokePermission('P1' as any);
+        await expect(revocation).rejects.toBeInstanceOf(RevocationError);
+        await expect(revocation).rejects.toMatchObject({
+          message: expect.stringContaining('forbidden'),
+          report: { dryRun: false, revoked: [], failed: [] },
+        });
+      });
+    });
+  });
+
+  nockIt('keeps capabilities unknown to the client in the capability set', async (scope) => {
+    scope.get('/grants/G1').reply(200, makePodGrant('G1', { capabilities: 'read write' }));
+    const grant = await parcel.getGrant('G1' as GrantId);
+    expect(grant.capabilities).toEqual(Capabilities.Read);
+    expect(grant.capabilitySet.toString()).toEqual('read write');
+  });
+
+  describe('time bounds', () => {
+    const notBefore = new Date('2030-01-01T00:00:00.000Z');
+    const expiresAt = new Date('2030-02-01T00:00:00.000Z');
+
+    nockIt('adds the time bounds to the condition', async (scope) => {
+      const condition = {
+        $and: [
+          { 'document.tags': { $intersects: ['csv'] } },
+          { accessTime: { $gte: notBefore.toISOString() } },
+          { accessTime: { $lt: expiresAt.toISOString() } },
+        ],
+      };
+      scope
+        .post('/grants', { grantee: 'I2', condition })
+        .reply(201, makePodGrant('G1', { condition }));
+
+      const grant = await parcel.createGrant({
+        grantee: 'I2' as IdentityId,
+        condition: { $and: [{ 'document.tags': { $intersects: ['csv'] } }] },
+        notBefore,
+        expiresAt,
+      });
+      expect(grant.notBefore).toEqual(notBefore);
+      expect(grant.expiresAt).toEqual(expiresAt);
+      expect((grant.condition as any).$and[2].accessTime.$lt).toEqual(expiresAt);
+    });
+
+    nockIt('plans time-bounded grants that are in place as unchanged', async (scope) => {
+      const condition = {
+        $and: [
+          { 'document.tags': { $intersects: ['csv'] } },
+          { accessTime: { $gte: notBefore.toISOString() } },
+          { accessTime: { $lt: expiresAt.toISOString() } },
+        ],
+      };
+      scope
+        .get('/grants')
+        .query({ granter: 'I1' })
+        .reply(200, { results: [makePodGrant('G1', { condition })], nextPageToken: '' });
+
+      const plan = await parcel.planGrants(
+        [
+          {
+            grantee: 'I2' as IdentityId,
+            condition: { 'document.tags': { $intersects: ['csv'] } },
+            notBefore,
+            expiresAt,
+          },
+        ],
+        { filter: { granter: 'I1' as IdentityId } },
+      );
+      expect(plan.isEmpty).toBe(true);
+      expect(plan.unchanged.map(({ id }) => id)).toEqual(['G1']);
+    });
+
+    nockIt('ignores malformed time bounds', async (scope) => {
+      const condition = { $and: [{ accessTime: {} }, { accessTime: null }, null] };
+      scope.get('/grants/G1').reply(200, makePodGrant('G1', { condition }));
+      const grant = await parcel.getGrant('G1' as GrantId);
+      expect(grant.condition).toEqual(condition);
+      expect(grant.notBefore).toBeUndefined();
+      expect(grant.expiresAt).toBeUndefined();
+    });
+
+    it('rejects grants that expire before they start', async () => {
+      await expect(
+        parcel.createGrant({
+          grantee: 'I2' as IdentityId,
+          notBefore: expiresAt,
+          expiresAt: notBefore,
+        }),
+      ).rejects.toThrow('the grant must expire after it starts applying');
+    });
+
+    nockIt('lists the grants that expire soon', async (scope) => {
+      const hour = 60 * 60 * 1000;
+      const expiringIn = (ms: number) => ({
+        condition: { accessTime: { $lt: new Date(Date.now() + ms).toISOString() } },
+      });
+      scope.get('/grants').reply(200, {
+        results: [
+          makePodGrant('G1', expiringIn(2 * hour)),
+          makePodGrant('G2', expiringIn(-hour)),
+          makePodGrant('G3', expiringIn(hour)),
+          makePodGrant('G4', expiringIn(48 * hour)),
+          makePodGrant('G5'),
+        ],
+        nextPageToken: '',
+      });
+
+      const grants = await parcel.listExpiringGrants(24 * hour);
+      expect(grants.map(({ id }) => id)).toEqual(['G3', 'G1']);
+    });
+  });
+});
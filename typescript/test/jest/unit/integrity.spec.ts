@@ -0,0 +1,129 @@
+import { Readable } from 'stream';
+
+import nock from 'nock';
+
+import type { default as Parcel, Download, Storable } from '@oasislabs/parcel';
+import { IntegrityError } from '@oasislabs/parcel';
+
+import {
+  API_BASE_URL,
+  fixtureData,
+  fixtureDocument as undigestedDocument,
+  fixtureSha256,
+  makeParcel,
+  parcelNock,
+  STORAGE_URL,
+} from './helpers';
+
+describe('integrity', () => {
+  let parcel: Parcel;
+
+  const fixtureDocument = { ...undigestedDocument, details: { sha256: fixtureSha256 } };
+
+  beforeEach(() => {
+    parcel = makeParcel();
+  });
+
+  afterEach(() => {
+    nock.cleanAll();
+  });
+
+  afterAll(() => {
+    nock.restore(); // https://github.com/nock/nock#memory-issues-with-jest
+  });
+
+  async function readAll(download: Download): Promise<string> {
+    const chunks = [];
+    for await (const chunk of download) chunks.push(chunk);
+    return Buffer.concat(chunks).toString();
+  }
+
+  describe('upload', () => {
+    it('sends the digest of in-memory data with the metadata', async () => {
+      const scope = parcelNock(STORAGE_URL)
+        .post('', (body: string) => body.includes(`{"details":{"sha256":"${fixtureSha256}"}}`))
+        .reply(201, fixtureDocument);
+
+      await parcel.uploadDocument(fixtureData, null).finished;
+      scope.done();
+    });
+
+    it('does not hash streams by default', async () => {
+      const scope = parcelNock(STORAGE_URL)
+        .post('', (body: string) => !body.includes('sha256'))
+        .reply(201, undigestedDocument);
+
+      const data = Readable.from([Buffer.from(fixtureData)]) as Storable;
+      await parcel.uploadDocument(data, null).finished;
+      scope.done();
+    });
+
+    it('attaches the digest of a stream after uploading it if asked to', async () => {
+      const storageScope = parcelNock(STORAGE_URL)
+        .post('', (body: string) => body.includes(fixtureData))
+        .reply(201, { ...fixtureDocument, details: { title: 'fixture' } });
+      const apiScope = parcelNock(API_BASE_URL)
+        .put('/documents/D1', { owner: 'I1', details: { title: 'fixture', sha256: fixtureSha256 } })
+        .reply(200, fixtureDocument);
+
+      // `Storable` is typed using `readable-stream`, but any Node `Readable` works.
+      const data = Readable.from([Buffer.from('fixture '), Buffer.from('data')]) as Storable;
+      const document = await parcel.uploadDocument(data, null, { digest: true }).finished;
+      expect(document.details.sha256).toEqual(fixtureSha256);
+      storageScope.done();
+      apiScope.done();
+    });
+
+    it('can skip computing the digest', async () => {
+      const scope = parcelNock(STORAGE_URL)
+        .post('', (body: string) => !body.includes('sha256'))
+        .reply(201, fixtureDocument);
+
+      await parcel.uploadDocument(fixtureData, null, { digest: false }).finished;
+      scope.done();
+    });
+  });
+
+  describe('download', () => {
+    async function getDocument(details = fixtureDocument.details) {
+      const scope = parcelNock(API_BASE_URL)
+        .get('/documents/D1')
+        .reply(200, { ...fixtureDocument, details });
+      const document = await parcel.getDocument('D1' as any);
+      scope.done();
+      return document;
+    }
+
+    it('verifies the downloaded data', async () => {
+      const document = await getDocument();
+      const scope = parcelNock(STORAGE_URL).get('/D1/download').reply(200, fixtureData);
+      expect(await readAll(document.download())).toEqual(fixtureData);
+      scope.done();
+    });
+
+    it('rejects data with the wrong digest', async () => {
+      const document = await getDocument();
+      const scope = parcelNock(STORAGE_URL).get('/D1/download').reply(200, 'fixture DATA');
+      const error = await readAll(document.download()).catch((error: any) => error);
+      expect(error).toBeInstanceOf(IntegrityError);
+      expect(error).toMatchObject({ expected: fixtureSha256 });
+      scope.done();
+    });
+
+    it('rejects truncated data', async () => {
+      const document = await getDocument({} as any); // Documents uploaded without a digest.
+      const scope = parcelNock(STORAGE_URL).get('/D1/download').reply(200, 'fixture');
+      await expect(readAll(document.download())).rejects.toThrow(
+        'downloaded data has size 7, expected 12',
+      );
+      scope.done();
+    });
+
+    it('can be disabled', async () => {
+      const document = await getDocument();
+      const scope = parcelNock(STORAGE_URL).get('/D1/download').reply(200, 'fixture DATA');
+      expect(await readAll(document.download({ integrity: false }))).toEqual('fixture DATA');
+      scope.done();
+    });
+  });
+});
@@ -0,0 +1,471 @@
+import { Readable } from 'stream';
+
+import nock from 'nock';
+
+import type { default as Parcel, DocumentId, JobId, JobSpec } from '@oasislabs/parcel';
+import {
+  AbortError,
+  InvalidJobSpecError,
+  JobPhase,
+  JobSpecBuilder,
+  JobTimeoutError,
+  validateJobSpec,
+} from '@oasislabs/parcel';
+
+import { mapConcurrently } from '@oasislabs/parcel/model';
+
+import { API_BASE_URL, makeParcel, parcelNock, STORAGE_URL } from './helpers';
+
+describe('jobs', () => {
+  let parcel: Parcel;
+
+  const jobId = 'J1' as JobId;
+  const fixtureJob = {
+    id: jobId,
+    createdAt: new Date().toISOString(),
+    spec: { name: 'fixture', image: 'alpine', cmd: ['true'] },
+    io: { accessedDocuments: [], outputDocuments: [] },
+    status: { phase: JobPhase.SUCCEEDED, message: '', host: 'host' },
+  };
+
+  function statusReport(phase: JobPhase) {
+    return { id: jobId, status: { phase, message: '', host: 'host' } };
+  }
+
+  beforeEach(() => {
+    parcel = makeParcel();
+  });
+
+  afterEach(() => {
+    nock.cleanAll();
+  });
+
+  afterAll(() => {
+    nock.restore(); // https://github.com/nock/nock#memory-issues-with-jest
+  });
+
+  describe('lifecycle', () => {
+    async function getJob(phase = JobPhase.RUNNING) {
+      const scope = parcelNock(API_BASE_URL)
+        .get('/compute/jobs/J1')
+        .reply(200, { ...fixtureJob, status: { phase } });
+      const job = await parcel.getJob(jobId);
+      scope.done();
+      return job;
+    }
+
+    it('refreshes', async () => {
+      const job = await getJob();
+      const scope = parcelNock(API_BASE_URL).get('/compute/jobs/J1').reply(200, fixtureJob);
+      expect(await job.refresh()).toBe(job);
+      expect(job.status?.phase).toEqual(JobPhase.SUCCEEDED);
+      scope.done();
+    });
+
+    it('gets its status', async () => {
+      const job = await getJob();
+      const scope = parcelNock(API_BASE_URL)
+        .get('/compute/jobs/J1/status')
+        .reply(200, statusReport(JobPhase.SUCCEEDED))
+        .get('/compute/jobs/J1')
+        .reply(200, fixtureJob);
+      const report = await job.getStatus();
+      expect(report.status.phase).toEqual(JobPhase.SUCCEEDED);
+      expect(job.status?.phase).toEqual(JobPhase.RUNNING);
+      expect((await report.getJob()).status?.phase).toEqual(JobPhase.SUCCEEDED);
+      scope.done();
+    });
+
+    it('terminates', async () => {
+      const job = await getJob();
+      const scope = parcelNock(API_BASE_URL).delete('/compute/jobs/J1').reply(204);
+      await job.terminate();
+      scope.done();
+    });
+
+    it('revokes gateway access', async () => {
+      const job = await getJob();
+      const scope = parcelNock(API_BASE_URL)
+        .post('/compute/jobs/J1/revoke_gateway_access')
+        .times(2)
+        .reply(200, {});
+      await job.revokeGatewayAccess();
+      await parcel.revokeGatewayAccess(jobId);
+      scope.done();
+    });
+  });
+
+  describe('logs', () => {
+    async function collect(lines: AsyncIterable<string>): Promise<string[]> {
+      const collected = [];
+      for await (const line of lines) collected.push(line);
+      return collected;
+    }
+
+    it('streams lines', async () => {
+      const since = new Date('2021-01-01T00:00:00Z');
+      const body = Readable.from(
+        // `é` is split across chunks.
+        [
+          Buffer.from('first\r\nsec'),
+          Buffer.from([0x6f, 0x6e, 0x64, 0xc3]),
+          Buffer.from([0xa9, 0x0a]),
+        ],
+      );
+      const scope = parcelNock(API_BASE_URL)
+        .get('/compute/jobs/J1/logs')
+        .query({ follow: 'true', since: String(since.getTime()), tail: '2' })
+        .reply(200, () => body);
+
+      const logs = parcel.getJobLogs(jobId, { follow: true, since, tail: 2 });
+      expect(await collect(logs)).toEqual(['first', 'secondé']);
+      scope.done();
+    });
+
+    it('yields an unterminated last line', async () => {
+      const scope = parcelNock(API_BASE_URL)
+        .get('/compute/jobs/J1')
+        .reply(200, fixtureJob)
+        .get('/compute/jobs/J1/logs')
+        .reply(200, 'one\n\ntwo');
+
+      const job = await parcel.getJob(jobId);
+      expect(await collect(job.logs())).toEqual(['one', '', 'two']);
+      scope.done();
+    });
+
+    it('reports errors', async () => {
+      const scope = parcelNock(API_BASE_URL)
+        .get('/compute/jobs/J1/logs')
+        .reply(404, { error: 'job not found' });
+
+      await expect(collect(parcel.getJobLogs(jobId))).rejects.toThrow(
+        'error in job logs: Error from',
+      );
+      scope.done();
+    });
+  });
+
+  describe('wait', () => {
+    it('polls until the job finishes', async () => {
+      const scope = parcelNock(API_BASE_URL)
+        .get('/compute/jobs/J1/status')
+        .reply(200, statusReport(JobPhase.PENDING))
+        .get('/compute/jobs/J1/status')
+        .reply(200, statusReport(JobPhase.RUNNING))
+        .get('/compute/jobs/J1/status')
+        .reply(200, statusReport(JobPhase.SUCCEEDED))
+        .get('/compute/jobs/J1')
+        .reply(200, fixtureJob);
+
+      const job = await parcel.waitForJob(jobId, { pollInterval: 1 });
+      expect(job.status?.phase).toEqual(JobPhase.SUCCEEDED);
+      scope.done();
+    });
+
+    it('waits for a submitted job', async () => {
+      const scope = parcelNock(API_BASE_URL)
+        .post('/compute/jobs')
+        .reply(201, { ...fixtureJob, status: { phase: JobPhase.PENDING } })
+        .get('/compute/jobs/J1/status')
+        .reply(200, statusReport(JobPhase.FAILED))
+        .get('/compute/jobs/J1')
+        .reply(200, { ...fixtureJob, status: { phase: JobPhase.FAILED } });
+
+      const job = await parcel.submitJob(fixtureJob.spec);
+      expect((await job.wait()).status?.phase).toEqual(JobPhase.FAILED);
+      scope.done();
+    });
+
+    it('reports status changes', async () => {
+      const scope = parcelNock(API_BASE_URL)
+        .get('/compute/jobs/J1/status')
+        .times(2)
+        .reply(200, statusReport(JobPhase.RUNNING))
+        .get('/compute/jobs/J1/status')
+        .reply(200, statusReport(JobPhase.SUCCEEDED))
+        .get('/compute/jobs/J1')
+        .reply(200, { ...fixtureJob, status: { phase: JobPhase.SUCCEEDED } });
+
+      const onStatusChange = jest.fn();
+      await parcel.waitForJob(jobId, { pollInterval: 1, onStatusChange });
+      expect(onStatusChange.mock.calls).toEqual([
+        [statusReport(JobPhase.RUNNING)],
+        [statusReport(JobPhase.SUCCEEDED)],
+      ]);
+      scope.done();
+    });
+
+    it('times out', async () => {
+      const scope = parcelNock(API_BASE_URL)
+        .get('/compute/jobs/J1/status')
+        .times(2)
+        .reply(200, statusReport(JobPhase.RUNNING));
+
+      const error = await parcel
+        .waitForJob(jobId, { pollInterval: 100, timeout: 50 })
+        .catch((error: any) => error);
+      expect(error).toBeInstanceOf(JobTimeoutError);
+      expect(error).toMatchObject({ jobId, status: { phase: JobPhase.RUNNING } });
+      scope.done();
+    });
+
+    it('can be aborted', async () => {
+      const scope = parcelNock(API_BASE_URL)
+        .get('/compute/jobs/J1/status')
+        .reply(200, statusReport(JobPhase.RUNNING));
+
+      const controller = new AbortController();
+      const waiting = parcel.waitForJob(jobId, { signal: controller.signal });
+      setTimeout(() => {
+        controller.abort();
+      }, 20);
+      await expect(waiting).rejects.toThrow(AbortError);
+      scope.done();
+    });
+  });
+
+  describe('watch', () => {
+    it('emits phase changes', async () => {
+      const scope = parcelNock(API_BASE_URL)
+        .get('/compute/jobs/J1/status')
+        .times(2)
+        .reply(200, statusReport(JobPhase.PENDING))
+        .get('/compute/jobs/J1/status')
+        .reply(200, statusReport(JobPhase.SUCCEEDED))
+        .get('/compute/jobs/J1')
+        .reply(200, fixtureJob);
+
+      const phases: Array<[JobPhase, JobPhase | undefined]> = [];
+      const watcher = parcel.watchJob(jobId, { pollInterval: 1 });
+      watcher.on('phase', (report, previousPhase) => {
+        phases.push([report.status.phase, previousPhase]);
+      });
+      const job = await watcher.finished;
+
+      expect(job.id).toEqual(jobId);
+      expect(phases).toEqual([
+        [JobPhase.PENDING, undefined],
+        [JobPhase.SUCCEEDED, JobPhase.PENDING],
+      ]);
+      scope.done();
+    });
+
+    it('stops listening to the signal once finished', async () => {
+      const scope = parcelNock(API_BASE_URL)
+        .get('/compute/jobs/J1/status')
+        .reply(200, statusReport(JobPhase.SUCCEEDED))
+        .get('/compute/jobs/J1')
+        .reply(200, fixtureJob);
+
+      const { signal } = new AbortController();
+      const removeEventListener = jest.spyOn(signal, 'removeEventListener');
+      await parcel.watchJob(jobId, { pollInterval: 1, signal }).finished;
+      await new Promise(setImmediate);
+      expect(removeEventListener).toHaveBeenCalledWith('abort', expect.any(Function));
+      scope.done();
+    });
+  });
+
+  describe('spec', () => {
+    const documentId = 'D1' as DocumentId;
+
+    function issuesOf(spec: Partial<JobSpec>) {
+      return validateJobSpec({ ...fixtureJob.spec, ...spec });
+    }
+
+    it('builds a valid spec', () => {
+      const spec = new JobSpecBuilder('fixture', 'alpine')
+        .cmd('sh', '-c', 'true')
+        .env('VAR', 'value')
+        .inputDocument(documentId, 'in.txt')
+        .outputDocument('out.txt')
+        .allowEgress('192.0.2.0/24', '2001:db8::/32')
+        .allowParcelApiAccess()
+        .cpus(0.5)
+        .memory('512M')
+        .build();
+      expect(spec).toEqual({
+        name: 'fixture',
+        image: 'alpine',
+        cmd: ['sh', '-c', 'true'],
+        env: { VAR: 'value' },
+        inputDocuments: [{ id: documentId, mountPath: 'in.txt' }],
+        outputDocuments: [{ mountPath: 'out.txt' }],
+        networkPolicy: {
+          egress: [{ cidr: '192.0.2.0/24' }, { cidr: '2001:db8::/32' }],
+          parcelApiAccess: true,
+        },
+        cpus: 0.5,
+        memory: '512M',
+      });
+    });
+
+    it('rejects invalid specs when building', () => {
+      const builder = new JobSpecBuilder('fixture', '').memory('1K');
+      expect(() => builder.build()).toThrow(
+        'invalid job spec: `image` must be a non-empty string; `memory` must be a positive integer, optionally followed by `M` or `G`, e.g. `512M`',
+      );
+    });
+
+    it('validates memory', () => {
+      expect(issuesOf({ memory: '4M' })).toEqual([]);
+      expect(issuesOf({ memory: '1G' })).toEqual([]);
+      expect(issuesOf({ memory: '3M' })).toEqual([
+        { path: 'memory', message: 'must be at least 4M' },
+      ]);
+      expect(issuesOf({ memory: '1073741824' })).toEqual([]);
+      expect(issuesOf({ memory: '1' })).toEqual([
+        { path: 'memory', message: 'must be at least 4M' },
+      ]);
+      expect(issuesOf({ memory: '1.5G' })).toHaveLength(1);
+      expect(issuesOf({ memory: '0' })).toHaveLength(1);
+    });
+
+    it('forbids setting PATH', () => {
+      expect(issuesOf({ env: { HOME: '/root', PATH: '/bin' } })).toEqual([
+        { path: 'env.PATH', message: 'must not be set' },
+      ]);
+    });
+
+    it('validates mount paths', () => {
+      expect(
+        issuesOf({
+          inputDocuments: [
+            { id: documentId, mountPath: 'a/./b.txt' },
+            { id: documentId, mountPath: '/parcel/data/in/c.txt' },
+            { id: documentId, mountPath: 'a/../../c.txt' },
+            { id: documentId, mountPath: '' },
+            { id: documentId, mountPath: 'a/b.txt' },
+          ],
+          outputDocuments: [{ mountPath: 'a/b.txt' }, { mountPath: 'a/..' }],
+        }),
+      ).toEqual([
+        {
+          path: 'inputDocuments[1].mountPath',
+          message: 'must be relative to `/parcel/data/in`',
+        },
+        {
+          path: 'inputDocuments[2].mountPath',
+          message: 'must not point outside of `/parcel/data/in`',
+        },
+        {
+          path: 'inputDocuments[3].mountPath',
+          message: 'must be a non-empty string',
+        },
+        {
+          path: 'inputDocuments[4].mountPath',
+          message: '`a/b.txt` is already used by another document',
+        },
+        {
+          path: 'outputDocuments[1].mountPath',
+          message: 'must not point outside of `/parcel/data/out`',
+        },
+      ]);
+    });
+
+    it('validates CIDRs', () => {
+      const valid = ['10.0.0.1', '0.0.0.0/0', '10.0.0.0/8', '::1', '::/0', '::ffff:192.0.2.1/128'];
+      const invalid = ['10.0.0', '256.0.0.1', '10.0.0.0/33', '10.0.0.0/8/8', '1:::2', 'fe80::/129'];
+      const cidrs = [...valid, ...invalid];
+      const issues = issuesOf({ networkPolicy: { egress: cidrs.map((cidr) => ({ cidr })) } });
+      expect(issues.map(({ path }) => path)).toEqual(
+        invalid.map((_, i) => `networkPolicy.egress[${valid.length + i}].cidr`),
+      );
+      expect(issues[1].message).toEqual('`256.0.0.1` is not an IPv4 or IPv6 address');
+      expect(issues[2].message).toEqual('must have a prefix length between 0 and 32');
+    });
+
+    it('is checked before submitting', async () => {
+      await expect(parcel.submitJob({ ...fixtureJob.spec, memory: '2M' })).rejects.toThrow(
+        InvalidJobSpecError,
+      );
+    });
+  });
+
+  describe('documents', () => {
+    const fixtureDocument = {
+      createdAt: new Date().toISOString(),
+      creator: 'I1',
+      owner: 'I1',
+      size: 12,
+      details: {},
+    };
+
+    async function getJob() {
+      const scope = parcelNock(API_BASE_URL)
+        .get('/compute/jobs/J1')
+        .reply(200, {
+          ...fixtureJob,
+          io: {
+            accessedDocuments: ['D1', 'D2', 'D3'],
+            outputDocuments: [
+              { mountPath: 'a.txt', id: 'D4' },
+              { mountPath: 'b.txt', id: 'D5' },
+            ],
+          },
+        });
+      const job = await parcel.getJob(jobId);
+      scope.done();
+      return job;
+    }
+
+    function nockDocuments(...ids: string[]) {
+      const scope = parcelNock(API_BASE_URL);
+      for (const id of ids) scope.get(`/documents/${id}`).reply(200, { ...fixtureDocument, id });
+      return scope;
+    }
+
+    it('gets output documents', async () => {
+      const job = await getJob();
+      const scope = nockDocuments('D4', 'D5');
+      const documents = await job.getOutputDocuments();
+      expect(documents.map(({ id }) => id)).toEqual(['D4', 'D5']);
+      scope.done();
+    });
+
+    it('gets accessed documents', async () => {
+      const job = await getJob();
+      const scope = nockDocuments('D1', 'D2', 'D3');
+      const documents = await job.getAccessedDocuments({ concurrency: 2 });
+      expect(documents.map(({ id }) => id)).toEqual(['D1', 'D2', 'D3']);
+      scope.done();
+    });
+
+    it('downloads outputs by mount path', async () => {
+      const job = await getJob();
+      const scope = parcelNock(STORAGE_URL).get('/D5/download').reply(200, 'fixture data');
+      const chunks = [];
+      for await (const chunk of job.downloadOutput('b.txt')) chunks.push(chunk);
+      expect(Buffer.concat(chunks).toString()).toEqual('fixture data');
+      scope.done();
+      expect(() => job.downloadOutput('c.txt')).toThrow('job J1 has no output document at `c.txt`');
+    });
+
+    it('bounds the number of concurrent requests', async () => {
+      let running = 0;
+      let maxRunning = 0;
+      const results = await mapConcurrently([5, 1, 3, 2, 4], 2, async (ms) => {
+        maxRunning = Math.max(maxRunning, ++running);
+        await new Promise((resolve) => {
+          setTimeout(resolve, ms);
+        });
+        running--;
+        return ms * 2;
+      });
+      expect(results).toEqual([10, 2, 6, 4, 8]);
+      expect(maxRunning).toEqual(2);
+    });
+
+    it('stops after the first failure', async () => {
+      const started: number[] = [];
+      const mapping = mapConcurrently([1, 2, 3, 4], 1, async (i) => {
+        started.push(i);
+        if (i === 2) throw new Error('failed');
+        return i;
+      });
+      await expect(mapping).rejects.toThrow('failed');
+      expect(started).toEqual([1, 2]);
+    });
+  });
+});
@@ -0,0 +1,205 @@
+import type { Download, IdentityId, JobStatusReport } from '@oasislabs/parcel';
+import Parcel, { ApiError, JobPhase, cond } from '@oasislabs/parcel';
+import type { MockIdentity } from '@oasislabs/parcel/mock';
+import { MockGateway } from '@oasislabs/parcel/mock';
+
+describe('MockGateway', () => {
+  let gateway: MockGateway;
+  let alice: MockIdentity;
+  let bob: MockIdentity;
+  let aliceParcel: Parcel;
+  let bobParcel: Parcel;
+
+  async function readAll(download: Download): Promise<string> {
+    const chunks: Uint8Array[] = [];
+    for await (const chunk of download) chunks.push(chunk);
+    return Buffer.concat(chunks).toString();
+  }
+
+  beforeEach(() => {
+    gateway = new MockGateway({
+      runJob: ({ inputs }) => ({
+        logs: ['counting'],
+        outputs: { 'count.txt': String(inputs.get('in.txt')?.length) },
+      }),
+    });
+    alice = gateway.createIdentity();
+    bob = gateway.createIdentity();
+    aliceParcel = new Parcel(alice.token, gateway.config);
+    bobParcel = new Parcel(bob.token, gateway.config);
+  });
+
+  it('authenticates identities', async () => {
+    expect((await aliceParcel.getCurrentIdentity()).id).toEqual(alice.id);
+    const stranger = new Parcel('not-a-token', gateway.config);
+    await expect(stranger.getCurrentIdentity()).rejects.toBeInstanceOf(ApiError);
+  });
+
+  it('uploads and downloads documents', async () => {
+    const document = await aliceParcel.uploadDocument('hello, world', {
+      details: { title: 'greeting', tags: ['csv'] },
+      toApp: undefined,
+    }).finished;
+    expect(document.owner).toEqual(alice.id);
+    expect(document.size).toEqual(12);
+
+    expect(await readAll(aliceParcel.downloadDocument(document.id))).toEqual('hello, world');
+    const range = aliceParcel.downloadDocument(document.id, { range: { start: 7 } });
+    expect(await readAll(range)).toEqual('world');
+
+    const history = await aliceParcel.getDocumentHistory(document.id);
+    expect(history.results.map(({ accessor }) => accessor)).toEqual([alice.id, alice.id]);
+  });
+
+  it('updates only the fields that are sent', async () => {
+    const document = await aliceParcel.uploadDocument('gift', {
+      details: { title: 'gift', tags: ['csv'] },
+      toApp: undefined,
+    }).finished;
+    const response = await gateway.fetch(`${gateway.apiUrl}/documents/${document.id}`, {
+      method: 'PUT',
+      headers: { authorization: `Bearer ${alice.token}`, 'content-type': 'application/json' },
+      body: JSON.stringify({ owner: bob.id }),
+    });
+    expect(await response.json()).toMatchObject({
+      owner: bob.id,
+      details: { title: 'gift', tags: ['csv'] },
+    });
+  });
+
+  it('evaluates the conditions of grants', async () => {
+    const document = await aliceParcel.uploadDocument('secret', {
+      details: { title: 'secret', tags: ['csv'] },
+      toApp: undefined,
+    }).finished;
+    await expect(readAll(bobParcel.downloadDocument(document.id))).rejects.toThrow(
+      `access to document ${document.id} was denied`,
+    );
+
+    const grant = await aliceParcel.createGrant({
+      grantee: bob.id,
+      condition: cond.document.tags.intersects(['csv']),
+    });
+    expect(await readAll(bobParcel.downloadDocument(document.id))).toEqual('secret');
+    expect((await bobParcel.searchDocuments()).results.map(({ id }) => id)).toEqual([document.id]);
+
+    await aliceParcel.deleteGrant(grant.id);
+    await expect(bobParcel.getDocument(document.id)).rejects.toThrow('was denied');
+
+    await aliceParcel.createGrant({
+      grantee: bob.id,
+      condition: cond.document.tags.intersects(['json']),
+    });
+    await expect(bobParcel.getDocument(document.id)).rejects.toThrow('was denied');
+  });
+
+  it('serves requests through its fetch', async () => {
+    const response = await gateway.fetch(`${gateway.apiUrl}/grants`, {
+      method: 'POST',
+      headers: { authorization: `Bearer ${alice.token}`, 'content-type': 'application/json' },
+      body: JSON.stringify({ grantee: bob.id, condition: { 'document.size': { $eq: 1 } } }),
+    });
+    expect(response.status).toEqual(400);
+    expect((await response.json()).error).toContain('document.size');
+
+    await expect(gateway.fetch('https://example.com/')).rejects.toThrow(
+      'the mock gateway does not serve https://example.com/',
+    );
+  });
+
+  it('runs jobs through their phases', async () => {
+    const input = await aliceParcel.uploadDocument('four', null).finished;
+    const { id } = await aliceParcel.submitJob({
+      name: 'count',
+      image: 'alpine',
+      cmd: ['wc', '-c'],
+      inputDocuments: [{ mountPath: 'in.txt', id: input.id }],
+      outputDocuments: [{ mountPath: 'count.txt', owner: alice.id }],
+    });
+
+    const phases: JobPhase[] = [];
+    const watcher = aliceParcel.watchJob(id, { pollInterval: 1 });
+    watcher.on('phase', ({ status }: JobStatusReport) => phases.push(status.phase));
+    const job = await watcher.finished;
+    expect(phases).toEqual([JobPhase.RUNNING, JobPhase.SUCCEEDED]);
+    expect(job.status?.phase).toEqual(JobPhase.SUCCEEDED);
+    expect(job.io.accessedDocuments).toEqual([input.id]);
+
+    const [output] = job.io.outputDocuments;
+    expect(await readAll(aliceParcel.downloadDocument(output.id))).toEqual('4');
+    expect((await aliceParcel.getDocument(output.id)).originatingJob).toEqual(id);
+    const logs: string[] = [];
+    for await (const line of aliceParcel.getJobLogs(id)) logs.push(line);
+    expect(logs).toEqual(['counting']);
+  });
+
+  it('fails jobs whose inputs cannot be accessed', async () => {
+    const input = await aliceParcel.uploadDocument('private', null).finished;
+    const { id } = await bobParcel.submitJob({
+      name: 'snoop',
+      image: 'alpine',
+      cmd: ['cat'],
+      inputDocuments: [{ mountPath: 'in.txt', id: input.id }],
+    });
+
+    const job = await bobParcel.waitForJob(id, { pollInterval: 1 });
+    expect(job.status?.phase).toEqual(JobPhase.FAILED);
+    expect(job.status?.message).toEqual(`access to input document ${input.id} was denied`);
+  });
+
+  it('queries databases', async () => {
+    const database = await aliceParcel.createDatabase({ name: 'people' });
+    await aliceParcel.queryDatabase(database.id, {
+      sql: 'CREATE TABLE people (name TEXT, age INTEGER)',
+      params: {},
+    });
+    await aliceParcel.insertRows(database.id, {
+      tableName: 'people',
+      rows: [
+        { name: 'ann', age: 30 },
+        { name: 'bo', age: 40 },
+      ],
+    });
+
+    const rows = await aliceParcel.queryDatabase(database.id, {
+      sql: 'SELECT * FROM people WHERE age = $age',
+      params: { $age: 40 },
+    });
+    expect(rows).toEqual([{ name: 'bo', age: 40 }]);
+    await expect(bobParcel.getDatabase(database.id)).rejects.toThrow('was denied');
+  });
+
+  it('grants access to token holders', async () => {
+    const token = await aliceParcel.mintToken({
+      grant: { condition: null },
+      transferability: { parcel: { supply: 1 } },
+    });
+    const document = await aliceParcel.uploadDocument('tokenized', {
+      owner: 'escrow' as IdentityId,
+      toApp: undefined,
+    }).finished;
+    await token.addAsset(document.id);
+    await expect(bobParcel.getDocument(document.id)).rejects.toThrow('was denied');
+
+    const receipt = await token.transfer(1, bob.id);
+    expect(receipt.recipient).toEqual(bob.id);
+    expect((await bobParcel.getTokenBalance(bob.id, token.id)).balance).toEqual(1);
+    expect(await readAll(bobParcel.downloadDocument(document.id))).toEqual('tokenized');
+  });
+
+  it('meters usage', async () => {
+    const document = await aliceParcel.uploadDocument('metered', null).finished;
+    await readAll(aliceParcel.downloadDocument(document.id));
+    await aliceParcel.deleteDocument(document.id);
+
+    const usage = await aliceParcel.getUsage();
+    expect(usage).toMatchObject({
+      createCount: 1,
+      deleteCount: 1,
+      uploadCount: 1,
+      uploadSizeBytes: 7,
+      downloadCount: 1,
+      downloadSizeBytes: 7,
+    });
+  });
+});
@@ -0,0 +1,114 @@
+import nock from 'nock';
+
+import type { default as Parcel, GrantId } from '@oasislabs/parcel';
+import { AbortError, paginate } from '@oasislabs/parcel/model';
+import type { Page } from '@oasislabs/parcel/model';
+
+import { makeParcel, nockIt } from './helpers';
+
+describe('pagination', () => {
+  let parcel: Parcel;
+
+  beforeEach(() => {
+    parcel = makeParcel();
+  });
+
+  afterAll(() => {
+    nock.restore(); // https://github.com/nock/nock#memory-issues-with-jest
+  });
+
+  function makePodGrant(id: string) {
+    return {
+      id,
+      createdAt: new Date().toISOString(),
+      granter: 'granter',
+      grantee: 'grantee',
+      capabilities: 'read',
+    };
+  }
+
+  async function collect<T>(iterable: AsyncIterable<T>): Promise<T[]> {
+    const items = [];
+    for await (const item of iterable) items.push(item);
+    return items;
+  }
+
+  nockIt('follows page tokens until the token is empty', async (scope) => {
+    scope
+      .get('/grants')
+      .reply(200, { results: [makePodGrant('G1'), makePodGrant('G2')], nextPageToken: 'p2' })
+      .get('/grants')
+      .query({ 'page-token': 'p2' })
+      .reply(200, { results: [makePodGrant('G3')], nextPageToken: '' });
+
+    const grants = await collect(parcel.iterateGrants());
+    expect(grants.map((g) => g.id)).toEqual(['G1', 'G2', 'G3'] as GrantId[]);
+  });
+
+  nockIt('forwards the filter to every page', async (scope) => {
+    scope
+      .get('/compute/jobs')
+      .query({ submitter: 'alice', 'page-size': 1 })
+      .reply(200, { results: [], nextPageToken: 'p2' })
+      .get('/compute/jobs')
+      .query({ submitter: 'alice', 'page-size': 1, 'page-token': 'p2' })
+      .reply(200, { results: [], nextPageToken: '' });
+
+    expect(await collect(parcel.iterateJobs({ submitter: 'alice' as any, pageSize: 1 }))).toEqual(
+      [],
+    );
+  });
+
+  nockIt('iterates over the listings of models', async (scope) => {
+    scope
+      .get('/identities/me')
+      .reply(200, { id: 'I1', createdAt: new Date().toISOString(), tokenVerifiers: [] })
+      .get('/identities/I1/tokens')
+      .reply(200, { results: [{ id: 'T1', balance: 1 }], nextPageToken: 'p2' })
+      .get('/identities/I1/tokens')
+      .query({ 'page-token': 'p2' })
+      .reply(200, { results: [{ id: 'T2', balance: 2 }], nextPageToken: '' });
+
+    const identity = await parcel.getCurrentIdentity();
+    const balances = await collect(identity.iterateTokens());
+    expect(balances.map(({ balance }) => balance)).toEqual([1, 2]);
+  });
+
+  nockIt('stops fetching after maxItems', async (scope) => {
+    scope
+      .get('/grants')
+      .reply(200, { results: [makePodGrant('G1'), makePodGrant('G2')], nextPageToken: 'p2' });
+
+    const grants = await collect(parcel.iterateGrants(undefined, { maxItems: 1 }));
+    expect(grants.map((g) => g.id)).toEqual(['G1']);
+  });
+
+  it('is lazy', async () => {
+    const fetchPage = jest.fn(
+      async (): Promise<Page<number>> => ({ results: [1, 2], nextPageToken: 'next' }),
+    );
+    const iterator = paginate(fetchPage, {});
+    expect(fetchPage).not.toHaveBeenCalled();
+    await iterator.next();
+    await iterator.next();
+    expect(fetchPage).toHaveBeenCalledTimes(1);
+    await iterator.next();
+    expect(fetchPage).toHaveBeenCalledTimes(2);
+    expect(fetchPage).toHaveBeenLastCalledWith({ pageToken: 'next' });
+  });
+
+  it('aborts', async () => {
+    const abortController = new AbortController();
+    const fetchPage = async (): Promise<Page<number>> => ({ results: [1, 2], nextPageToken: 'n' });
+    const seen: number[] = [];
+    await expect(
+      (async () => {
+        for await (const n of paginate(fetchPage, {}, { signal: abortController.signal })) {
+          seen.push(n);
+          abortController.abort();
+        }
+      })(),
+    ).rejects.toThrow(AbortError);
+    expect(seen).toEqual([1]);
+  });
+});
@@ -1271,7 +1271,7 @@ describe('Parcel', () => {
         condition: fixtureGrant.condition,
       };
       expect(createParams).toMatchSchema(getRequestSchema('POST', '/grants'));
-      scope.post('/grants', createParams).reply(201, fixtureGrant);
+      scope.post('/grants', createParams as JsonObject).reply(201, fixtureGrant);
       const grant = await parcel.createGrant(createParams);
       const podGrant = { ...grant, capabilities: stringifyCaps(grant.capabilities) };
       expect(podGrant).toMatchPOD(fixtureGrant);
@@ -0,0 +1,223 @@
+import nock from 'nock';
+
+import type {
+  default as Parcel,
+  InputDocumentSpec,
+  OutputDocument,
+  PipelineStep,
+  PipelineStepResult,
+} from '@oasislabs/parcel';
+import { JobPhase, PipelineError } from '@oasislabs/parcel';
+
+import { API_BASE_URL, makeParcel, parcelNock } from './helpers';
+
+describe('pipeline', () => {
+  let parcel: Parcel;
+
+  function step(name: string, options?: Partial<PipelineStep>): PipelineStep {
+    return {
+      name,
+      spec: {
+        name,
+        image: 'alpine',
+        cmd: ['true'],
+        outputDocuments: [{ mountPath: 'out.txt' }],
+      },
+      ...options,
+    };
+  }
+
+  function nockJob(
+    name: string,
+    options: Partial<{
+      phase: JobPhase;
+      inputDocuments: InputDocumentSpec[];
+      outputDocuments: OutputDocument[];
+    }> = {},
+  ): nock.Scope {
+    const id = `J${name}`;
+    const {
+      phase = JobPhase.SUCCEEDED,
+      inputDocuments = [],
+      outputDocuments = [{ mountPath: 'out.txt', id: `D${name}` }],
+    } = options;
+    const job = {
+      id,
+      createdAt: new Date().toISOString(),
+      spec: step(name).spec,
+      io: { accessedDocuments: [], outputDocuments },
+      status: { phase, message: phase === JobPhase.FAILED ? 'exit code 1' : '' },
+    };
+    return parcelNock(API_BASE_URL)
+      .post(
+        '/compute/jobs',
+        (body) =>
+          body.name === name &&
+          JSON.stringify(body.inputDocuments) === JSON.stringify(inputDocuments),
+      )
+      .reply(201, { ...job, status: { phase: JobPhase.PENDING } })
+      .get(`/compute/jobs/${id}/status`)
+      .reply(200, { id, status: job.status })
+      .get(`/compute/jobs/${id}`)
+      .reply(200, job);
+  }
+
+  function statuses(steps: PipelineStepResult[]) {
+    return Object.fromEntries(steps.map(({ name, status }) => [name, status]));
+  }
+
+  beforeEach(() => {
+    parcel = makeParcel();
+  });
+
+  afterEach(() => {
+    nock.cleanAll();
+  });
+
+  afterAll(() => {
+    nock.restore(); // https://github.com/nock/nock#memory-issues-with-jest
+  });
+
+  it('wires outputs into downstream inputs', async () => {
+    const scopes = [
+      nockJob('a'),
+      nockJob('b', { inputDocuments: [{ id: 'Da', mountPath: 'a.txt' }] as any }),
+      nockJob('c', {
+        inputDocuments: [
+          { id: 'Dx', mountPath: 'x.txt' },
+          { id: 'Da', mountPath: 'a.txt' },
+          { id: 'Db', mountPath: 'b.txt' },
+        ] as any,
+      }),
+    ];
+
+    const run = parcel.runPipeline(
+      [
+        step('c', {
+          spec: { ...step('c').spec, inputDocuments: [{ id: 'Dx' as any, mountPath: 'x.txt' }] },
+          inputs: [
+            { step: 'a', output: 'out.txt', mountPath: 'a.txt' },
+            { step: 'b', output: 'out.txt', mountPath: 'b.txt' },
+          ],
+        }),
+        step('b', { inputs: [{ step: 'a', output: 'out.txt', mountPath: 'a.txt' }] }),
+        step('a'),
+      ],
+      { pollInterval: 1 },
+    );
+    const started: string[] = [];
+    run.on('step', ({ name, status, job }: PipelineStepResult) => {
+      if (status === 'running' && !job) started.push(name);
+    });
+
+    const result = await run.finished;
+    expect(result.succeeded).toBe(true);
+    expect(result.steps.map(({ name }) => name)).toEqual(['c', 'b', 'a']);
+    expect(result.steps[0].job?.id).toEqual('Jc');
+    expect(started).toEqual(['a', 'b', 'c']);
+    for (const scope of scopes) scope.done();
+  });
+
+  it('runs independent steps concurrently', async () => {
+    const scopes = [nockJob('a'), nockJob('b'), nockJob('c')];
+    const run = parcel.runPipeline([step('a'), step('b'), step('c', { dependsOn: ['a'] })], {
+      pollInterval: 1,
+    });
+    const running = new Set<string>();
+    let maxRunning = 0;
+    run.on('step', ({ name, status }: PipelineStepResult) => {
+      if (status === 'running') running.add(name);
+      else if (status !== 'pending') running.delete(name);
+      maxRunning = Math.max(maxRunning, running.size);
+    });
+
+    expect((await run.finished).succeeded).toBe(true);
+    expect(maxRunning).toEqual(2);
+    for (const scope of scopes) scope.done();
+  });
+
+  it('stops listening to the signal once finished', async () => {
+    const scope = nockJob('a');
+    const { signal } = new AbortController();
+    const removeEventListener = jest.spyOn(signal, 'removeEventListener');
+    await parcel.runPipeline([step('a')], { pollInterval: 1, signal }).finished;
+    await new Promise(setImmediate);
+    expect(removeEventListener).toHaveBeenCalledWith('abort', expect.any(Function));
+    scope.done();
+  });
+
+  it('limits concurrency', async () => {
+    const scopes = [nockJob('a'), nockJob('b')];
+    const run = parcel.runPipeline([step('a'), step('b')], { pollInterval: 1, concurrency: 1 });
+    const finished: string[] = [];
+    run.on('step', ({ name, status }: PipelineStepResult) => {
+      if (status === 'running') expect(finished).toHaveLength(name === 'a' ? 0 : 1);
+      if (status === 'succeeded') finished.push(name);
+    });
+
+    expect((await run.finished).succeeded).toBe(true);
+    expect(finished).toEqual(['a', 'b']);
+    for (const scope of scopes) scope.done();
+  });
+
+  it('skips the steps downstream of failures', async () => {
+    const scopes = [nockJob('a', { phase: JobPhase.FAILED }), nockJob('c')];
+    const run = parcel.runPipeline(
+      [
+        step('a'),
+        step('b', { inputs: [{ step: 'a', output: 'out.txt', mountPath: 'a.txt' }] }),
+        step('c'),
+        step('d', { dependsOn: ['b', 'c'] }),
+      ],
+      { pollInterval: 1 },
+    );
+
+    const result = await run.finished;
+    expect(result.succeeded).toBe(false);
+    expect(statuses(result.steps)).toEqual({
+      a: 'failed',
+      b: 'skipped',
+      c: 'succeeded',
+      d: 'skipped',
+    });
+    expect(result.steps[0].error?.message).toEqual('job Ja failed: exit code 1');
+    expect(result.steps[3].error?.message).toEqual(
+      'step `d` was skipped: upstream step `b` skipped',
+    );
+    for (const scope of scopes) scope.done();
+  });
+
+  it('fails steps whose inputs were not output', async () => {
+    const scope = nockJob('a', { outputDocuments: [] });
+    const run = parcel.runPipeline(
+      [step('a'), step('b', { inputs: [{ step: 'a', output: 'out.txt', mountPath: 'a.txt' }] })],
+      { pollInterval: 1 },
+    );
+
+    const result = await run.finished;
+    expect(statuses(result.steps)).toEqual({ a: 'succeeded', b: 'failed' });
+    expect(result.steps[1].error).toBeInstanceOf(PipelineError);
+    expect(result.steps[1].error?.message).toEqual('step `a` did not output `out.txt` (job Ja)');
+    scope.done();
+  });
+
+  it('validates the steps', () => {
+    expect(() => parcel.runPipeline([step('a'), step('a')])).toThrow('duplicate step `a`');
+    expect(() => parcel.runPipeline([step('a', { dependsOn: ['b'] })])).toThrow(
+      'step `a` depends on unknown step `b`',
+    );
+    expect(() =>
+      parcel.runPipeline([
+        step('a'),
+        step('b', { inputs: [{ step: 'a', output: 'missing.txt', mountPath: 'a.txt' }] }),
+      ]),
+    ).toThrow('step `b` uses output `missing.txt` of step `a`, which does not declare it');
+    expect(() =>
+      parcel.runPipeline([
+        step('a', { dependsOn: ['c'] }),
+        step('b', { dependsOn: ['a'] }),
+        step('c', { dependsOn: ['b'] }),
+      ]),
+    ).toThrow('steps form a cycle: a -> c -> b -> a');
+  });
+});
@@ -0,0 +1,94 @@
+import nock from 'nock';
+
+import type { default as Parcel, TransferProgress } from '@oasislabs/parcel';
+
+import {
+  fixtureData,
+  fixtureDocument,
+  fixtureSha256,
+  makeParcel,
+  parcelNock,
+  STORAGE_URL,
+} from './helpers';
+
+describe('transfer progress', () => {
+  let parcel: Parcel;
+
+  beforeEach(() => {
+    parcel = makeParcel();
+  });
+
+  afterEach(() => {
+    nock.cleanAll();
+  });
+
+  afterAll(() => {
+    nock.restore(); // https://github.com/nock/nock#memory-issues-with-jest
+  });
+
+  function expectMonotonic(progress: TransferProgress[]) {
+    for (let i = 1; i < progress.length; i++) {
+      expect(progress[i].loaded).toBeGreaterThanOrEqual(progress[i - 1].loaded);
+    }
+
+    for (const { rate } of progress) expect(rate).toBeGreaterThanOrEqual(0);
+  }
+
+  it('reports multipart upload progress', async () => {
+    const scope = parcelNock(STORAGE_URL).post('').reply(201, fixtureDocument);
+
+    const upload = parcel.uploadDocument(fixtureData, null);
+    const progress: TransferProgress[] = [];
+    upload.on('progress', (p) => progress.push(p));
+    await upload.finished;
+
+    expect(progress.length).toBeGreaterThan(1);
+    const last = progress[progress.length - 1];
+    expect(last.total).toBeGreaterThan(fixtureData.length); // Includes the multipart framing.
+    expect(last.loaded).toEqual(last.total);
+    expectMonotonic(progress);
+    scope.done();
+  });
+
+  it('reports resumable upload progress from the resumed offset', async () => {
+    const scope = parcelNock(STORAGE_URL)
+      .get('/uploads/U1')
+      .reply(200, { id: 'U1', offset: 8 })
+      .put('/uploads/U1', 'data')
+      .reply(200, { id: 'U1', offset: 12 })
+      .post('/uploads/U1/complete', { size: 12, sha256: fixtureSha256 })
+      .reply(201, fixtureDocument);
+
+    const upload = parcel.uploadDocument(fixtureData, null, {
+      session: { id: 'U1' as any, offset: 8, chunkSize: 4 },
+    });
+    const progress: TransferProgress[] = [];
+    upload.on('progress', (p) => progress.push(p));
+    await upload.finished;
+
+    expect(progress.map(({ loaded, total }) => ({ loaded, total }))).toEqual([
+      { loaded: 8, total: 12 },
+      { loaded: 12, total: 12 },
+    ]);
+    expectMonotonic(progress);
+    scope.done();
+  });
+
+  it('reports download progress', async () => {
+    const scope = parcelNock(STORAGE_URL)
+      .get('/D1/download')
+      .reply(200, fixtureData, { 'content-length': String(fixtureData.length) });
+
+    const download = parcel.downloadDocument('D1' as any);
+    const progress: TransferProgress[] = [];
+    download.on('progress', (p) => progress.push(p));
+    const chunks = [];
+    for await (const chunk of download) chunks.push(chunk);
+
+    expect(Buffer.concat(chunks).toString()).toEqual(fixtureData);
+    expect(progress[0]).toMatchObject({ loaded: 0, total: 12 });
+    expect(progress[progress.length - 1]).toMatchObject({ loaded: 12, total: 12 });
+    expectMonotonic(progress);
+    scope.done();
+  });
+});
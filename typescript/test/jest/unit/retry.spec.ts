@@ -0,0 +1,201 @@
+import nock from 'nock';
+
+import type { default as Parcel, GrantId, JobSpec } from '@oasislabs/parcel';
+import { HttpClient } from '@oasislabs/parcel/http';
+import { isTransientError } from '@oasislabs/parcel/retry';
+import { StaticTokenProvider } from '@oasislabs/parcel/token';
+
+import {
+  API_BASE_URL,
+  fixtureData,
+  fixtureDocument,
+  makeParcel,
+  parcelNock,
+  STORAGE_URL,
+} from './helpers';
+
+describe('retries', () => {
+  let client: HttpClient;
+
+  beforeEach(() => {
+    client = new HttpClient(new StaticTokenProvider('header.payload.signature'), {
+      apiUrl: API_BASE_URL,
+      storageUrl: STORAGE_URL,
+      retry: { backoffBase: 1, jitter: false },
+    });
+  });
+
+  afterEach(() => {
+    nock.cleanAll();
+  });
+
+  afterAll(() => {
+    nock.restore(); // https://github.com/nock/nock#memory-issues-with-jest
+  });
+
+  it('retries idempotent requests', async () => {
+    const scope = parcelNock(API_BASE_URL)
+      .get('/grants/G1')
+      .reply(503, { error: 'unavailable' })
+      .get('/grants/G1')
+      .reply(502, 'bad gateway', { 'content-type': 'text/plain' })
+      .get('/grants/G1')
+      .reply(200, { id: 'G1' });
+    await expect(client.get('grants/G1')).resolves.toEqual({ id: 'G1' });
+    scope.done();
+  });
+
+  it('gives up after the limit', async () => {
+    const scope = parcelNock(API_BASE_URL)
+      .get('/grants/G1')
+      .times(3)
+      .reply(503, { error: 'unavailable' });
+    await expect(client.get('grants/G1')).rejects.toThrow('unavailable');
+    scope.done();
+  });
+
+  it('retries network failures, but not other type errors', () => {
+    expect(isTransientError(new TypeError('Failed to fetch'))).toBe(true);
+    expect(isTransientError(new TypeError('fetch failed'))).toBe(true);
+    expect(isTransientError(new TypeError("Cannot read property 'id' of undefined"))).toBe(false);
+  });
+
+  it('does not retry client errors', async () => {
+    const scope = parcelNock(API_BASE_URL).get('/grants/G1').reply(404, { error: 'not found' });
+    await expect(client.get('grants/G1')).rejects.toThrow('not found');
+    scope.done();
+  });
+
+  it('does not retry POST without an idempotency key', async () => {
+    const scope = parcelNock(API_BASE_URL).post('/grants').reply(503, { error: 'unavailable' });
+    await expect(client.create('grants', { grantee: 'everyone' })).rejects.toThrow('unavailable');
+    scope.done();
+  });
+
+  it('retries POST with an idempotency key', async () => {
+    const scope = parcelNock(API_BASE_URL)
+      .matchHeader('idempotency-key', 'key')
+      .post('/grants')
+      .reply(503, { error: 'unavailable' })
+      .post('/grants')
+      .reply(201, { id: 'G1' });
+    await expect(
+      client.create('grants', { grantee: 'everyone' }, { idempotencyKey: 'key' }),
+    ).resolves.toEqual({ id: 'G1' });
+    scope.done();
+  });
+
+  it('honors Retry-After', async () => {
+    const scope = parcelNock(API_BASE_URL)
+      .delete('/grants/G1')
+      .reply(429, { error: 'slow down' }, { 'retry-after': '0.05' })
+      .delete('/grants/G1')
+      .reply(204);
+    const start = Date.now();
+    await client.delete(`grants/${'G1' as GrantId}`);
+    expect(Date.now() - start).toBeGreaterThanOrEqual(45);
+    scope.done();
+  });
+
+  it('fails fast when Retry-After exceeds maxRetryAfter', async () => {
+    const scope = parcelNock(API_BASE_URL)
+      .get('/grants/G1')
+      .reply(429, { error: 'slow down' }, { 'retry-after': '3600' });
+    await expect(client.get('grants/G1')).rejects.toThrow('slow down');
+    scope.done();
+  });
+
+  it('can be overridden per call', async () => {
+    const scope = parcelNock(API_BASE_URL).get('/grants/G1').reply(503, { error: 'unavailable' });
+    await expect(client.get('grants/G1', {}, { retry: false })).rejects.toThrow('unavailable');
+    scope.done();
+  });
+
+  it('retries downloads', async () => {
+    const scope = parcelNock(STORAGE_URL)
+      .get('/D1/download')
+      .reply(503, { error: 'unavailable' })
+      .get('/D1/download')
+      .reply(200, 'data');
+    const chunks = [];
+    for await (const chunk of client.download('D1' as any)) chunks.push(chunk);
+    expect(Buffer.concat(chunks).toString()).toEqual('data');
+    scope.done();
+  });
+
+  describe('through Parcel', () => {
+    let parcel: Parcel;
+
+    beforeEach(() => {
+      parcel = makeParcel({ retry: { backoffBase: 1, jitter: false } });
+    });
+
+    it('retries uploads with an idempotency key', async () => {
+      const scope = parcelNock(STORAGE_URL)
+        .matchHeader('idempotency-key', 'key')
+        .post('')
+        .reply(503, { error: 'unavailable' })
+        .post('')
+        .reply(201, fixtureDocument);
+      const upload = parcel.uploadDocument(fixtureData, null, { idempotencyKey: 'key' });
+      await expect(upload.finished).resolves.toMatchObject({ id: fixtureDocument.id });
+      scope.done();
+    });
+
+    it('retries resumable uploads with an idempotency key', async () => {
+      const scope = parcelNock(STORAGE_URL)
+        .matchHeader('idempotency-key', 'key')
+        .post('/uploads')
+        .reply(503, { error: 'unavailable' })
+        .post('/uploads')
+        .reply(201, { id: 'U1', offset: 0 });
+      const storageScope = parcelNock(STORAGE_URL)
+        .put('/uploads/U1')
+        .reply(200, { id: 'U1', offset: fixtureData.length })
+        .post('/uploads/U1/complete')
+        .reply(201, fixtureDocument);
+      const upload = parcel.uploadDocument(fixtureData, null, {
+        resumable: true,
+        idempotencyKey: 'key',
+      });
+      await expect(upload.finished).resolves.toMatchObject({ id: fixtureDocument.id });
+      scope.done();
+      storageScope.done();
+    });
+
+    it('retries grant creation with an idempotency key', async () => {
+      const scope = parcelNock(API_BASE_URL)
+        .matchHeader('idempotency-key', 'key')
+        .post('/grants')
+        .reply(503, { error: 'unavailable' })
+        .post('/grants')
+        .reply(201, { id: 'G1', createdAt: new Date().toISOString(), granter: 'I1' });
+      await expect(
+        parcel.createGrant({ grantee: 'everyone' }, { idempotencyKey: 'key' }),
+      ).resolves.toMatchObject({ id: 'G1' });
+      scope.done();
+    });
+
+    it('retries job submission with an idempotency key', async () => {
+      const spec: JobSpec = { name: 'fixture', image: 'alpine', cmd: ['true'] };
+      const scope = parcelNock(API_BASE_URL)
+        .matchHeader('idempotency-key', 'key')
+        .post('/compute/jobs')
+        .reply(503, { error: 'unavailable' })
+        .post('/compute/jobs')
+        .reply(201, { id: 'J1', createdAt: new Date().toISOString(), spec });
+      await expect(parcel.submitJob(spec, { idempotencyKey: 'key' })).resolves.toMatchObject({
+        id: 'J1',
+      });
+      scope.done();
+    });
+
+    it('can be overridden per call', async () => {
+      const scope = parcelNock(API_BASE_URL).post('/grants').reply(503, { error: 'unavailable' });
+      await expect(
+        parcel.createGrant({ grantee: 'everyone' }, { idempotencyKey: 'key', retry: false }),
+      ).rejects.toThrow('unavailable');
+      scope.done();
+    });
+  });
+});
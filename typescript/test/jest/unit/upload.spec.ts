@@ -0,0 +1,115 @@
+import { Readable } from 'stream';
+
+import nock from 'nock';
+
+import type {
+  default as Parcel,
+  Storable,
+  UploadSession,
+  UploadSessionId,
+} from '@oasislabs/parcel';
+
+import {
+  fixtureData,
+  fixtureDocument,
+  fixtureSha256,
+  makeParcel,
+  parcelNock,
+  STORAGE_URL,
+} from './helpers';
+
+describe('resumable upload', () => {
+  let parcel: Parcel;
+
+  beforeEach(() => {
+    parcel = makeParcel();
+  });
+
+  afterEach(() => {
+    nock.cleanAll();
+  });
+
+  afterAll(() => {
+    nock.restore(); // https://github.com/nock/nock#memory-issues-with-jest
+  });
+
+  it('uploads in chunks', async () => {
+    const scope = parcelNock(STORAGE_URL)
+      .post('/uploads', { metadata: { details: { tags: ['to-app-A1'] } } })
+      .reply(201, { id: 'U1', offset: 0 })
+      .put('/uploads/U1', 'fixt')
+      .matchHeader('content-range', 'bytes 0-3/12')
+      .reply(200, { id: 'U1', offset: 4 })
+      .put('/uploads/U1', 'ure ')
+      .matchHeader('content-range', 'bytes 4-7/12')
+      .reply(200, { id: 'U1', offset: 8 })
+      .put('/uploads/U1', 'data')
+      .matchHeader('content-range', 'bytes 8-11/12')
+      .reply(200, { id: 'U1', offset: 12 })
+      .post('/uploads/U1/complete', { size: 12, sha256: fixtureSha256 })
+      .reply(201, fixtureDocument);
+
+    const upload = parcel.uploadDocument(
+      fixtureData,
+      { toApp: 'A1' as any },
+      { resumable: true, chunkSize: 4 },
+    );
+    const sessions: UploadSession[] = [];
+    const progress: any[] = [];
+    upload.on('session', (session) => sessions.push(session));
+    upload.on('progress', (p) => progress.push(p));
+    const document = await upload.finished;
+
+    expect(document.id).toEqual(fixtureDocument.id);
+    expect(sessions.map((s) => s.offset)).toEqual([0, 4, 8, 12]);
+    expect(upload.session).toEqual({ id: 'U1', offset: 12, chunkSize: 4 });
+    expect(progress[progress.length - 1]).toMatchObject({ loaded: 12, total: 12 });
+    scope.done();
+  });
+
+  it('resumes from a session', async () => {
+    const scope = parcelNock(STORAGE_URL)
+      .get('/uploads/U1')
+      .reply(200, { id: 'U1', offset: 8 })
+      .put('/uploads/U1', 'data')
+      .matchHeader('content-range', 'bytes 8-11/*')
+      .reply(200, { id: 'U1', offset: 12 })
+      .post('/uploads/U1/complete', { size: 12, sha256: fixtureSha256 })
+      .reply(201, fixtureDocument);
+
+    // The persisted offset may lag behind the server's.
+    const session: UploadSession = { id: 'U1' as UploadSessionId, offset: 4, chunkSize: 4 };
+    // `Storable` is typed using `readable-stream`, but any Node `Readable` works.
+    const data = Readable.from([Buffer.from('fixture '), Buffer.from('data')]) as Storable;
+    const document = await parcel.uploadDocument(data, null, { session }).finished;
+    expect(document.id).toEqual(fixtureDocument.id);
+    scope.done();
+  });
+
+  it('falls back to a plain upload if the server does not support resumable uploads', async () => {
+    const scope = parcelNock(STORAGE_URL)
+      .post('/uploads')
+      .reply(404, { error: 'not found' })
+      .post('', (body: string) => body.includes(fixtureData) && body.includes('to-app-A1'))
+      .reply(201, fixtureDocument);
+
+    const upload = parcel.uploadDocument(fixtureData, { toApp: 'A1' as any }, { resumable: true });
+    const document = await upload.finished;
+    expect(document.id).toEqual(fixtureDocument.id);
+    expect(upload.session).toBeUndefined();
+    scope.done();
+  });
+
+  it('fails if the server does not commit the chunk', async () => {
+    const scope = parcelNock(STORAGE_URL)
+      .post('/uploads')
+      .reply(201, { id: 'U1', offset: 0 })
+      .put('/uploads/U1')
+      .reply(200, { id: 'U1', offset: 2 });
+
+    await expect(
+      parcel.uploadDocument(fixtureData, null, { resumable: true, chunkSize: 4 }).finished,
+    ).rejects.toThrow('committed 2 bytes, expected 4');
+    scope.done();
+  });
+});